@@ -36,6 +36,19 @@ describe('validateEnv', () => {
         allowedOrigins: ['https://app1.com', 'https://app2.com'],
         allowLocalDev: true,
       },
+      mcp: {
+        toolPacks: [],
+        sessionTtlMinutes: 30,
+        maxSessions: 1000,
+        harmonyConversationTtlMinutes: 15,
+        toolTimeoutSeconds: 120,
+      },
+      docebo: {
+        maxRetries: 2,
+        retryBaseDelayMs: 200,
+        retryMaxDelayMs: 5000,
+        requestTimeoutMs: 30000,
+      },
     });
   });
 
@@ -126,6 +139,42 @@ describe('validateEnv', () => {
     expect(appConfig.server.publicUrl).toBe('http://localhost:3000');
   });
 
+  it('parses MCP_TOOL_PACKS as comma-separated list', async () => {
+    process.env.SERVER_PUBLIC_URL = 'https://mcp.example.com';
+    process.env.MCP_TOOL_PACKS = './packs/hr-tools.js, @acme/docebo-tools';
+
+    const { appConfig } = await import('./config.js');
+
+    expect(appConfig.mcp.toolPacks).toEqual(['./packs/hr-tools.js', '@acme/docebo-tools']);
+  });
+
+  it('parses MCP_SESSION_TTL_MINUTES as integer', async () => {
+    process.env.SERVER_PUBLIC_URL = 'https://mcp.example.com';
+    process.env.MCP_SESSION_TTL_MINUTES = '5';
+
+    const { appConfig } = await import('./config.js');
+
+    expect(appConfig.mcp.sessionTtlMinutes).toBe(5);
+  });
+
+  it('parses HARMONY_CONVERSATION_TTL_MINUTES as integer', async () => {
+    process.env.SERVER_PUBLIC_URL = 'https://mcp.example.com';
+    process.env.HARMONY_CONVERSATION_TTL_MINUTES = '60';
+
+    const { appConfig } = await import('./config.js');
+
+    expect(appConfig.mcp.harmonyConversationTtlMinutes).toBe(60);
+  });
+
+  it('parses DOCEBO_MAX_RETRIES as integer', async () => {
+    process.env.SERVER_PUBLIC_URL = 'https://mcp.example.com';
+    process.env.DOCEBO_MAX_RETRIES = '0';
+
+    const { appConfig } = await import('./config.js');
+
+    expect(appConfig.docebo.maxRetries).toBe(0);
+  });
+
   it('handles empty ALLOWED_ORIGINS gracefully', async () => {
     process.env.SERVER_PUBLIC_URL = 'https://mcp.example.com';
     process.env.ALLOWED_ORIGINS = '';
@@ -15,6 +15,19 @@ interface Config {
     allowedOrigins: string[];
     allowLocalDev: boolean;
   };
+  mcp: {
+    toolPacks: string[]; // Module specifiers of third-party tool packs
+    sessionTtlMinutes: number; // Idle time before an MCP session expires
+    maxSessions: number; // Live MCP sessions above which initialize is refused
+    harmonyConversationTtlMinutes: number; // Idle time before a Harmony Search conversation expires
+    toolTimeoutSeconds: number; // Default time limit of a tools/call
+  };
+  docebo: {
+    maxRetries: number; // Retries of failed Docebo API calls
+    retryBaseDelayMs: number; // Backoff ceiling of the first retry
+    retryMaxDelayMs: number; // Upper bound of a backoff delay
+    requestTimeoutMs: number; // Time limit of each Docebo API call
+  };
 }
 
 function validateEnv(): Config {
@@ -40,6 +53,11 @@ function validateEnv(): Config {
   // Allow disabling origin check for local development (MCP Inspector, etc.)
   const allowLocalDev = process.env.ALLOW_LOCAL_DEV === 'true';
 
+  // Parse third-party tool packs to load at startup
+  const toolPacks = process.env.MCP_TOOL_PACKS
+    ? process.env.MCP_TOOL_PACKS.split(',').map((p) => p.trim()).filter(Boolean)
+    : [];
+
   return {
     server: {
       port: parseInt(process.env.PORT || '3000', 10),
@@ -47,6 +65,19 @@ function validateEnv(): Config {
       allowedOrigins,
       allowLocalDev,
     },
+    mcp: {
+      toolPacks,
+      sessionTtlMinutes: parseInt(process.env.MCP_SESSION_TTL_MINUTES || '30', 10),
+      maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '1000', 10),
+      harmonyConversationTtlMinutes: parseInt(process.env.HARMONY_CONVERSATION_TTL_MINUTES || '15', 10),
+      toolTimeoutSeconds: parseInt(process.env.MCP_TOOL_TIMEOUT_SECONDS || '120', 10),
+    },
+    docebo: {
+      maxRetries: parseInt(process.env.DOCEBO_MAX_RETRIES || '2', 10),
+      retryBaseDelayMs: parseInt(process.env.DOCEBO_RETRY_BASE_DELAY_MS || '200', 10),
+      retryMaxDelayMs: parseInt(process.env.DOCEBO_RETRY_MAX_DELAY_MS || '5000', 10),
+      requestTimeoutMs: parseInt(process.env.DOCEBO_REQUEST_TIMEOUT_MS || '30000', 10),
+    },
   };
 }
 
@@ -58,6 +89,7 @@ console.log('[Config] Loaded configuration:', {
   serverPublicUrl: appConfig.server.publicUrl,
   allowedOrigins: appConfig.server.allowedOrigins,
   allowLocalDev: appConfig.server.allowLocalDev,
+  toolPacks: appConfig.mcp.toolPacks,
 });
 
 if (appConfig.server.allowLocalDev) {
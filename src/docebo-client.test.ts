@@ -0,0 +1,178 @@
+/**
+ * Tests for the shared Docebo HTTP client
+ * Verifies retry, backoff, Retry-After, timeout and abort behaviour
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { doceboFetch, doceboRequest, configureDoceboClient, resetDoceboClient, withAbortSignal, paginate, collectPages } from './docebo-client.js';
+import { DoceboAuthExpiredError, DoceboRateLimitedError, DoceboUnavailableError } from './docebo-errors.js';
+
+global.fetch = vi.fn();
+
+const get = { method: 'GET' as const, url: 'https://acme.docebosaas.com/learn/v1/courses', token: 'token-a', label: 'Docebo course API' };
+const post = { method: 'POST' as const, url: 'https://acme.docebosaas.com/learn/v1/enrollments', token: 'token-a', body: { user_ids: [1] }, label: 'Docebo enrollment API' };
+
+describe('docebo client', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+    configureDoceboClient({ maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    resetDoceboClient();
+    vi.useRealTimers();
+  });
+
+  it('retries idempotent requests on 5xx until they succeed', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const response = await doceboFetch(get);
+
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response('Bad gateway', { status: 502 }));
+
+    const response = await doceboFetch(get);
+
+    expect(response.status).toBe(502);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a POST on 5xx or network errors', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Oops', { status: 500 }));
+    expect((await doceboFetch(post)).status).toBe(500);
+
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(doceboFetch(post)).rejects.toThrow('fetch failed');
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries idempotent requests on network errors', async () => {
+    vi.mocked(fetch)
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    expect((await doceboFetch(get)).status).toBe(200);
+  });
+
+  it('waits for Retry-After on 429, even for a POST', async () => {
+    vi.useFakeTimers();
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('Slow down', { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const pending = doceboFetch(post);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns a 429 whose Retry-After is too long to wait for', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+
+    expect((await doceboFetch(get)).status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the bearer token and JSON body', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    await doceboFetch(post);
+
+    expect(fetch).toHaveBeenCalledWith(post.url, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token-a', 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: '{"user_ids":[1]}',
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('throws labelled errors for error replies', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Course not found', { status: 404, statusText: 'Not Found' }));
+
+    await expect(doceboRequest(get)).rejects.toThrow('Docebo course API error: 404 Not Found - Course not found');
+  });
+
+  it('throws typed errors for error replies', async () => {
+    configureDoceboClient({ maxRetries: 0 });
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('', { status: 401, statusText: 'Unauthorized' }))
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '20' } }));
+
+    await expect(doceboRequest(get)).rejects.toBeInstanceOf(DoceboAuthExpiredError);
+    await expect(doceboRequest(get)).rejects.toMatchObject({ constructor: DoceboRateLimitedError, retryAfterSeconds: 20 });
+  });
+
+  it('reports network failures as Docebo being unavailable', async () => {
+    configureDoceboClient({ maxRetries: 0 });
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(doceboRequest(get)).rejects.toBeInstanceOf(DoceboUnavailableError);
+  });
+
+  // Stand-in for a request that never answers: settles only when its signal aborts
+  const hangingFetch = async (_url: unknown, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+    });
+
+  it('times out each attempt and retries idempotent requests', async () => {
+    vi.mocked(fetch)
+      .mockImplementationOnce(hangingFetch)
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const response = await doceboFetch({ ...get, timeoutMs: 10 });
+
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a timed out POST without retrying it', async () => {
+    vi.mocked(fetch).mockImplementationOnce(hangingFetch);
+
+    await expect(doceboFetch({ ...post, timeoutMs: 10 })).rejects.toThrow('Docebo enrollment API timed out after 10ms');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts requests made under withAbortSignal, without retrying', async () => {
+    vi.mocked(fetch).mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const pending = withAbortSignal(controller.signal, () => doceboFetch(get));
+    controller.abort(new Error('Request cancelled by the client'));
+
+    await expect(pending).rejects.toThrow('Request cancelled by the client');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pagination', () => {
+  const fetchPage = vi.fn(async (page: number) => ({ data: { items: [page * 10, page * 10 + 1], has_more_page: page < 3 } }));
+
+  beforeEach(() => {
+    fetchPage.mockClear();
+  });
+
+  it('collects the items of every page', async () => {
+    expect(await collectPages(fetchPage)).toEqual([10, 11, 20, 21, 30, 31]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('fetches pages only as the loop asks for them', async () => {
+    for await (const { page } of paginate(fetchPage, 2)) {
+      if (page === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith(2);
+  });
+});
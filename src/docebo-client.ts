@@ -0,0 +1,249 @@
+/**
+ * Shared HTTP client for Docebo and Geppetto calls
+ * Builds the headers, retries transient failures and turns error replies into
+ * exceptions. Retries use exponential backoff with full jitter on network
+ * errors and 5xx replies (idempotent requests only) and honour Retry-After on
+ * 429, which Docebo sends before processing the request.
+ * Every attempt has a timeout, and requests made while a tool call runs are
+ * aborted with it (see withAbortSignal). Failures are thrown as typed
+ * DoceboApiError subclasses.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getTenantApiUrl } from './tenants.js';
+import { DoceboApiError, DoceboUnavailableError, toDoceboError } from './docebo-errors.js';
+
+export interface ClientOptions {
+  maxRetries: number; // Retries after the first attempt; 0 disables retries
+  baseDelayMs: number; // Backoff ceiling of the first retry, doubled on each retry
+  maxDelayMs: number; // Upper bound of a backoff delay
+  timeoutMs: number; // Timeout of each attempt, including reading the reply
+}
+
+export interface DoceboRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  token: string; // Sent as the bearer token
+  body?: unknown; // Sent as JSON when present
+  label: string; // Prefix of error messages, e.g. "Docebo course API"
+  idempotent?: boolean; // Safe to repeat after a network error or 5xx (default: true except for POST)
+  timeoutMs?: number; // Overrides the configured per-attempt timeout
+  signal?: AbortSignal; // Default: the signal of the running tool call, if any
+}
+
+// A page of a Docebo listing (the common part of every list reply)
+export interface ListPage<T> {
+  data: {
+    items: T[];
+    has_more_page: boolean;
+  };
+}
+
+const DEFAULT_CLIENT_OPTIONS: ClientOptions = { maxRetries: 2, baseDelayMs: 200, maxDelayMs: 5000, timeoutMs: 30_000 };
+
+// A longer Retry-After is returned to the caller instead of waited for
+const MAX_RETRY_AFTER_MS = 30_000;
+
+let clientOptions: ClientOptions = { ...DEFAULT_CLIENT_OPTIONS };
+
+// Abort signal of the tool call being handled
+const requestSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Set the retry policy and timeout (called at startup from the server configuration)
+ */
+export function configureDoceboClient(options: Partial<ClientOptions>): void {
+  clientOptions = { ...clientOptions, ...options };
+  console.log('[Docebo] Client options:', clientOptions);
+}
+
+/**
+ * Restore the default retry policy and timeout (for tests)
+ */
+export function resetDoceboClient(): void {
+  clientOptions = { ...DEFAULT_CLIENT_OPTIONS };
+}
+
+/**
+ * Run fn so that every Docebo request it makes is aborted with signal
+ */
+export function withAbortSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return requestSignal.run(signal, fn);
+}
+
+/**
+ * Absolute URL of a Docebo API path on a tenant
+ */
+export function doceboUrl(tenant: string, path: string): string {
+  const baseUrl = getTenantApiUrl(tenant);
+
+  if (!baseUrl) {
+    throw new Error(`Tenant '${tenant}' is not configured`);
+  }
+
+  return `${baseUrl}${path}`;
+}
+
+/**
+ * Iterate over the pages of a Docebo listing, from firstPage until has_more_page is false
+ * Each page is fetched when the loop asks for it, so breaking out stops fetching.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<ListPage<T>>,
+  firstPage = 1
+): AsyncGenerator<{ page: number; items: T[]; has_more_page: boolean }> {
+  for (let page = firstPage; ; page++) {
+    const { data } = await fetchPage(page);
+    yield { page, items: data.items, has_more_page: data.has_more_page };
+
+    if (!data.has_more_page) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect the items of every page of a Docebo listing
+ */
+export async function collectPages<T>(fetchPage: (page: number) => Promise<ListPage<T>>): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const page of paginate(fetchPage)) {
+    items.push(...page.items);
+  }
+
+  return items;
+}
+
+/**
+ * Send a request, retrying transient failures
+ * Resolves with the final response whatever its status; rejects only when the
+ * last attempt fails at the network level (DoceboUnavailableError) or the
+ * caller's signal aborts (with the abort reason).
+ */
+export async function doceboFetch(request: DoceboRequest): Promise<Response> {
+  const idempotent = request.idempotent ?? request.method !== 'POST';
+  const callerSignal = request.signal ?? requestSignal.getStore();
+  const timeoutMs = request.timeoutMs ?? clientOptions.timeoutMs;
+  const headers = {
+    Authorization: `Bearer ${request.token}`,
+    ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    Accept: 'application/json',
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < clientOptions.maxRetries;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+
+    try {
+      response = await fetch(request.url, {
+        method: request.method,
+        headers,
+        ...(request.body !== undefined ? { body: JSON.stringify(request.body) } : {}),
+        signal: callerSignal ? AbortSignal.any([callerSignal, timeout]) : timeout,
+      });
+    } catch (error) {
+      callerSignal?.throwIfAborted();
+
+      const failure = new DoceboUnavailableError(
+        timeout.aborted
+          ? `${request.label} timed out after ${timeoutMs}ms`
+          : `${request.label} request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      if (!canRetry || !idempotent) throw failure;
+
+      const delay = backoffDelay(attempt);
+      console.warn(`[Docebo] ${failure.message}, retrying in ${delay}ms`);
+      await sleep(delay, callerSignal);
+      continue;
+    }
+
+    let delay: number | undefined;
+    if (response.status === 429) {
+      delay = retryAfterDelay(response) ?? backoffDelay(attempt);
+    } else if (response.status >= 500 && idempotent) {
+      delay = backoffDelay(attempt);
+    }
+
+    if (delay === undefined || !canRetry || delay > MAX_RETRY_AFTER_MS) {
+      return response;
+    }
+
+    console.warn(`[Docebo] ${request.label} answered ${response.status}, retrying in ${delay}ms`);
+    await response.body?.cancel();
+    await sleep(delay, callerSignal);
+  }
+}
+
+/**
+ * Send a request and throw on an error reply
+ */
+export async function doceboRequest(request: DoceboRequest): Promise<Response> {
+  const response = await doceboFetch(request);
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, request.label);
+  }
+
+  return response;
+}
+
+/**
+ * Typed error for an error reply, with Docebo's message from its body
+ */
+export async function errorFromResponse(response: Response, label: string): Promise<DoceboApiError> {
+  const retryAfterMs = response.status === 429 ? retryAfterDelay(response) : undefined;
+
+  return toDoceboError(
+    label,
+    response.status,
+    response.statusText,
+    await response.text(),
+    retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined
+  );
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt, capped
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(clientOptions.maxDelayMs, clientOptions.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), if any
+ */
+function retryAfterDelay(response: Response): number | undefined {
+  const value = response.headers?.get('Retry-After');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Wait between attempts; rejects as soon as signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for the typed Docebo errors
+ * Verifies status mapping and parsing of Docebo error bodies
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toDoceboError,
+  DoceboAuthExpiredError,
+  DoceboForbiddenError,
+  DoceboNotFoundError,
+  DoceboValidationError,
+  DoceboRateLimitedError,
+  DoceboUnavailableError,
+} from './docebo-errors.js';
+
+describe('toDoceboError', () => {
+  it('maps statuses to error types', () => {
+    expect(toDoceboError('Docebo API', 401, 'Unauthorized', '')).toBeInstanceOf(DoceboAuthExpiredError);
+    expect(toDoceboError('Docebo API', 403, 'Forbidden', '')).toBeInstanceOf(DoceboForbiddenError);
+    expect(toDoceboError('Docebo API', 404, 'Not Found', '')).toBeInstanceOf(DoceboNotFoundError);
+    expect(toDoceboError('Docebo API', 422, 'Unprocessable Entity', '')).toBeInstanceOf(DoceboValidationError);
+    expect(toDoceboError('Docebo API', 503, 'Service Unavailable', '')).toBeInstanceOf(DoceboUnavailableError);
+  });
+
+  it("quotes Docebo's messages from JSON error bodies", () => {
+    const error = toDoceboError(
+      'Docebo user API',
+      400,
+      'Bad Request',
+      JSON.stringify({ name: 'Bad Request', message: ['Invalid email', 'Username already taken'], code: 400 })
+    );
+
+    expect(error.message).toBe('Docebo user API error: 400 Bad Request - Invalid email; Username already taken');
+    expect(error.status).toBe(400);
+  });
+
+  it('reads per-item error messages', () => {
+    const error = toDoceboError('Docebo API', 422, 'Unprocessable Entity', JSON.stringify({ errors: [{ message: 'Unknown course' }] }));
+
+    expect(error.message).toContain('- Unknown course');
+  });
+
+  it('truncates long non-JSON bodies', () => {
+    const error = toDoceboError('Docebo API', 502, 'Bad Gateway', '<html>'.padEnd(2000, 'x'));
+
+    expect(error.message.length).toBeLessThan(600);
+  });
+
+  it('tells how long to wait when rate limited', () => {
+    const error = toDoceboError('Docebo API', 429, 'Too Many Requests', '', 20);
+
+    expect(error).toBeInstanceOf(DoceboRateLimitedError);
+    expect((error as DoceboRateLimitedError).retryAfterSeconds).toBe(20);
+    expect(error.hint).toContain('Wait 20 seconds');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Typed Docebo API errors
+ * Built from Docebo error replies by the HTTP client; each carries a hint
+ * telling the caller (usually an agent) what to do about it. The MCP handler
+ * returns them as tool results with isError: true.
+ */
+
+export class DoceboApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined, // Undefined when no reply was received
+    readonly hint: string
+  ) {
+    super(message);
+    this.name = 'DoceboApiError';
+  }
+}
+
+// 401: the caller's access token is expired or revoked
+export class DoceboAuthExpiredError extends DoceboApiError {
+  constructor(message: string) {
+    super(message, 401, 'The Docebo access token has expired or was revoked. Sign in to Docebo again, then retry.');
+    this.name = 'DoceboAuthExpiredError';
+  }
+}
+
+// 403: the signed-in user lacks the permission
+export class DoceboForbiddenError extends DoceboApiError {
+  constructor(message: string) {
+    super(message, 403, 'The signed-in Docebo user is not allowed to do this. Ask a Docebo administrator for the permission, or try a different action.');
+    this.name = 'DoceboForbiddenError';
+  }
+}
+
+// 404: the user, course, enrollment, etc. does not exist
+export class DoceboNotFoundError extends DoceboApiError {
+  constructor(message: string) {
+    super(message, 404, 'Check the IDs: the list and search tools (e.g. docebo_list_users, docebo_list_courses) return valid ones.');
+    this.name = 'DoceboNotFoundError';
+  }
+}
+
+// 400, 409, 422: Docebo rejected the request content
+export class DoceboValidationError extends DoceboApiError {
+  constructor(message: string, status: number) {
+    super(message, status, 'Docebo rejected the request. Correct the arguments named in the message and retry.');
+    this.name = 'DoceboValidationError';
+  }
+}
+
+// 429: still rate limited after the client's retries
+export class DoceboRateLimitedError extends DoceboApiError {
+  constructor(message: string, readonly retryAfterSeconds?: number) {
+    super(
+      message,
+      429,
+      retryAfterSeconds !== undefined
+        ? `Docebo is rate limiting requests. Wait ${retryAfterSeconds} seconds before retrying.`
+        : 'Docebo is rate limiting requests. Wait a minute before retrying, and prefer fewer, larger requests.'
+    );
+    this.name = 'DoceboRateLimitedError';
+  }
+}
+
+// 5xx, network failures and timeouts
+export class DoceboUnavailableError extends DoceboApiError {
+  constructor(message: string, status?: number) {
+    super(message, status, 'Docebo is unavailable or did not answer in time. Retry in a few minutes; if it keeps failing, narrow the request.');
+    this.name = 'DoceboUnavailableError';
+  }
+}
+
+/**
+ * Typed error for a Docebo error reply
+ */
+export function toDoceboError(
+  label: string,
+  status: number,
+  statusText: string,
+  body: string,
+  retryAfterSeconds?: number
+): DoceboApiError {
+  const message = `${label} error: ${status} ${statusText} - ${describeErrorBody(body)}`;
+
+  switch (status) {
+    case 401:
+      return new DoceboAuthExpiredError(message);
+    case 403:
+      return new DoceboForbiddenError(message);
+    case 404:
+      return new DoceboNotFoundError(message);
+    case 400:
+    case 409:
+    case 422:
+      return new DoceboValidationError(message, status);
+    case 429:
+      return new DoceboRateLimitedError(message, retryAfterSeconds);
+    default:
+      return status >= 500
+        ? new DoceboUnavailableError(message, status)
+        : new DoceboApiError(message, status, 'Docebo could not process the request.');
+  }
+}
+
+// Longest error body quoted in a message
+const MAX_DETAIL_LENGTH = 500;
+
+/**
+ * Human-readable detail of an error body
+ * Docebo replies with {"message": "..." | ["...", ...]} or {"errors": [{"message": ...}]}
+ * depending on the endpoint; anything else is quoted as is.
+ */
+function describeErrorBody(body: string): string {
+  try {
+    const data = JSON.parse(body) as { message?: unknown; errors?: unknown };
+    const messages = [
+      ...(Array.isArray(data.message) ? data.message : [data.message]),
+      ...(Array.isArray(data.errors) ? data.errors.map((e) => (typeof e === 'object' && e !== null ? (e as { message?: unknown }).message : e)) : []),
+    ].filter((m): m is string => typeof m === 'string' && m.length > 0);
+
+    if (messages.length > 0) {
+      return messages.join('; ');
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return body.length > MAX_DETAIL_LENGTH ? `${body.slice(0, MAX_DETAIL_LENGTH)}…` : body;
+}
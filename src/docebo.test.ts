@@ -2,8 +2,41 @@
  * Unit tests for Docebo API client functions
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { enrollUser, listUsers, harmonySearch } from './docebo.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  enrollUser,
+  bulkEnroll,
+  listEnrollments,
+  updateEnrollment,
+  unenrollUser,
+  listUsers,
+  startHarmonySession,
+  sendHarmonyMessage,
+  HarmonySearchOptions,
+  reduceHarmonyEvents,
+  listCourses,
+  getCourse,
+  getCourseDetails,
+  getUser,
+  createUser,
+  updateUser,
+  setUserStatus,
+  getLearningPlan,
+  getLearningPlanDetails,
+  enrollLearningPlan,
+  getLearningPlanProgress,
+  getUserProgress,
+  listBranches,
+  listGroups,
+  removeGroupMembers,
+  listClassroomSessions,
+  enrollSessionUser,
+  markAttendance,
+  listExpiringCertifications,
+} from './docebo.js';
+import { clearHarmonyAuthCache } from './harmony-auth-cache.js';
+import { ToolArgumentError } from './tool-registry.js';
+import { DoceboAuthExpiredError, DoceboUnavailableError } from './docebo-errors.js';
 import * as tenants from './tenants.js';
 
 // Mock dependencies
@@ -256,12 +289,19 @@ describe('listUsers', () => {
   });
 });
 
-describe('harmonySearch', () => {
+describe('Harmony Search', () => {
   const mockBearerToken = 'test-token-123';
   const mockTenant = 'riccardo-lr-test';
 
+  // Start a conversation and ask one question in it, as docebo_harmony_search does
+  async function search(query: string, bearerToken = mockBearerToken, options?: HarmonySearchOptions) {
+    const session = await startHarmonySession(bearerToken, mockTenant);
+    return sendHarmonyMessage(session, query, bearerToken, mockTenant, options);
+  }
+
   beforeEach(() => {
     vi.clearAllMocks();
+    clearHarmonyAuthCache();
     // Mock tenant API URL
     vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
       `https://${mockTenant}.docebosaas.com`
@@ -307,18 +347,164 @@ data: {"done":true}
 
 `;
 
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      text: async () => sseData,
-    } as Response);
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(sseData));
 
-    const result = await harmonySearch({ query: 'test query' }, mockBearerToken, mockTenant);
+    const result = await search('test query', mockBearerToken, { includeRaw: true });
 
     expect(result.query).toBe('test query');
     expect(result.sessionId).toBe('session-123');
+    expect(result.answer).toBe('Hello');
     expect(result.events).toHaveLength(2);
-    expect(result.events[0].event).toBe('token');
-    expect(result.events[1].event).toBe('complete');
+    expect(result.events![0].event).toBe('token');
+    expect(result.events![1].event).toBe('complete');
+  });
+
+  it('should omit the raw stream unless requested', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: {
+            ai: {
+              geppetto: {
+                chat: {
+                  start_url: 'https://geppetto.example.com/start',
+                  message_stream_url: 'https://geppetto.example.com/stream',
+                },
+              },
+            },
+          },
+        }),
+      } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { token: 'geppetto-token' } }) } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-123' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"Hi"}\n\n'));
+
+    const result = await search('test');
+
+    expect(result).toEqual({ query: 'test', sessionId: 'session-123', answer: 'Hi', citations: [], followUps: [] });
+  });
+
+  it('should emit events incrementally as the stream arrives', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: {
+            ai: {
+              geppetto: {
+                chat: {
+                  start_url: 'https://geppetto.example.com/start',
+                  message_stream_url: 'https://geppetto.example.com/stream',
+                },
+              },
+            },
+          },
+        }),
+      } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { token: 'geppetto-token' } }) } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-123' }) } as Response);
+
+    // Chunks split mid-line; the second chunk only arrives after the first event was emitted
+    const encoder = new TextEncoder();
+    const received: string[] = [];
+    let releaseSecondChunk: () => void = () => {};
+    const secondChunkReady = new Promise<void>((resolve) => {
+      releaseSecondChunk = resolve;
+    });
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(encoder.encode('event: token\r\ndata: {"text":"Hel'));
+        controller.enqueue(encoder.encode('lo"}\r\n\r\nevent: token\n'));
+        await secondChunkReady;
+        controller.enqueue(encoder.encode('data: plain text\n\n'));
+        controller.close();
+      },
+    });
+
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(body));
+
+    const result = await search('test', mockBearerToken, {
+      includeRaw: true,
+      onEvent: (event) => {
+        received.push(JSON.stringify(event.data));
+        releaseSecondChunk();
+      },
+    });
+
+    expect(received).toEqual(['{"text":"Hello"}', '"plain text"']);
+    expect(result.events).toEqual([
+      { event: 'token', data: { text: 'Hello' } },
+      { event: 'token', data: 'plain text' },
+    ]);
+    expect(result.rawStream).toBe(
+      'event: token\r\ndata: {"text":"Hello"}\r\n\r\nevent: token\ndata: plain text\n\n'
+    );
+  });
+
+  it('should reuse cached Geppetto auth for the same tenant and token', async () => {
+    mockGeppettoAuth();
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-1' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"One"}\n\n'))
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-2' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"Two"}\n\n'));
+
+    await search('first');
+    const result = await search('second');
+
+    const urls = vi.mocked(fetch).mock.calls.map((call) => String(call[0]));
+    expect(urls.filter((url) => url.includes('/manage/v1/'))).toHaveLength(2);
+    expect(urls).toHaveLength(6);
+    expect(result.answer).toBe('Two');
+  });
+
+  it('should refresh the Geppetto token when Geppetto answers 401', async () => {
+    mockGeppettoAuth('expired-token');
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' } as Response);
+    mockGeppettoAuth('fresh-token');
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-1' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"Hello"}\n\n'));
+
+    const result = await search('test');
+
+    const startCalls = vi.mocked(fetch).mock.calls.filter((call) => call[0] === 'https://geppetto.example.com/start');
+    expect(startCalls).toHaveLength(2);
+    expect((startCalls[1][1]?.headers as Record<string, string>).Authorization).toBe('Bearer fresh-token');
+    expect(result.answer).toBe('Hello');
+  });
+
+  it('should not report a Geppetto 401 after the refresh as an expired Docebo token', async () => {
+    mockGeppettoAuth('rejected-token');
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized', text: async () => '' } as Response);
+    mockGeppettoAuth('still-rejected-token');
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized', text: async () => '' } as Response);
+
+    const error = await startHarmonySession(mockBearerToken, mockTenant).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DoceboUnavailableError);
+    expect(error).not.toBeInstanceOf(DoceboAuthExpiredError);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('should not share cached auth across bearer tokens', async () => {
+    mockGeppettoAuth();
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-1' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"One"}\n\n'));
+    mockGeppettoAuth();
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ session: 'session-2' }) } as Response)
+      .mockResolvedValueOnce(new Response('event: token\ndata: {"text":"Two"}\n\n'));
+
+    await search('first');
+    await search('second', 'other-token');
+
+    const urls = vi.mocked(fetch).mock.calls.map((call) => String(call[0]));
+    expect(urls.filter((url) => url.includes('/manage/v1/'))).toHaveLength(4);
   });
 
   it('should throw error if Geppetto URLs not found', async () => {
@@ -328,7 +514,744 @@ data: {"done":true}
     } as Response);
 
     await expect(
-      harmonySearch({ query: 'test' }, mockBearerToken, mockTenant)
+      search('test')
     ).rejects.toThrow('Geppetto URLs not found in bootstrap response');
   });
 });
+
+// Queue bootstrap and Geppetto auth responses
+function mockGeppettoAuth(geppettoToken = 'geppetto-token'): void {
+  vi.mocked(fetch)
+    .mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: {
+          ai: {
+            geppetto: {
+              chat: {
+                start_url: 'https://geppetto.example.com/start',
+                message_stream_url: 'https://geppetto.example.com/stream',
+              },
+            },
+          },
+        },
+      }),
+    } as Response)
+    .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { token: geppettoToken } }) } as Response);
+}
+
+describe('reduceHarmonyEvents', () => {
+  it('concatenates text chunks and collects citations and follow-ups', () => {
+    const result = reduceHarmonyEvents([
+      { event: 'token', data: { delta: 'Start with ' } },
+      { event: 'token', data: { delta: 'Safety 101.' } },
+      {
+        event: 'sources',
+        data: {
+          sources: [
+            { id: 7, title: 'Safety 101', type: 'course', url: 'https://acme.docebosaas.com/learn/course/7' },
+            { id: 7, title: 'Safety 101', type: 'course' },
+            { resource_id: 'lo-3', name: 'Fire drill video', resource_type: 'learning_object' },
+            { title: 'No ID' },
+          ],
+        },
+      },
+      { event: 'suggestions', data: { suggested_questions: ['Is it mandatory?', { text: 'How long is it?' }] } },
+    ]);
+
+    expect(result).toEqual({
+      answer: 'Start with Safety 101.',
+      citations: [
+        { type: 'course', id: 7, title: 'Safety 101', url: 'https://acme.docebosaas.com/learn/course/7' },
+        { type: 'learning_object', id: 'lo-3', title: 'Fire drill video' },
+      ],
+      followUps: ['Is it mandatory?', 'How long is it?'],
+    });
+  });
+
+  it('prefers a complete answer over accumulated chunks', () => {
+    const result = reduceHarmonyEvents([
+      { event: 'token', data: { text: 'Draft' } },
+      { event: 'complete', data: { answer: 'Final answer' } },
+    ]);
+
+    expect(result.answer).toBe('Final answer');
+  });
+});
+
+describe('record fetchers', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  it('should list courses with pagination', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { items: [], has_more_page: false } }),
+    } as unknown as Response);
+
+    await listCourses({ page: 2, page_size: 50 }, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe(
+      'https://riccardo-lr-test.docebosaas.com/learn/v1/courses?page=2&page_size=50'
+    );
+  });
+
+  it('should fetch a course, a user and a learning plan by ID', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { id: 7, name: 'Safety 101' } }) } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { user_data: { user_id: 3 } } }) } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { id: 9, name: 'Onboarding' } }) } as Response);
+
+    expect(await getCourse(7, mockBearerToken, mockTenant)).toEqual({ id: 7, name: 'Safety 101' });
+    expect((await getUser(3, mockBearerToken, mockTenant)).user_data.user_id).toBe(3);
+    expect(await getLearningPlan(9, mockBearerToken, mockTenant)).toEqual({ id: 9, name: 'Onboarding' });
+
+    const urls = vi.mocked(fetch).mock.calls.map((call) => call[0]);
+    expect(urls).toEqual([
+      'https://riccardo-lr-test.docebosaas.com/learn/v1/courses/7',
+      'https://riccardo-lr-test.docebosaas.com/manage/v1/user/3',
+      'https://riccardo-lr-test.docebosaas.com/learningplan/v1/learningplans/9',
+    ]);
+  });
+
+  it('should surface API errors', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: async () => 'Course not found',
+    } as Response);
+
+    await expect(getCourse(999, mockBearerToken, mockTenant)).rejects.toThrow(
+      'Docebo course API error: 404 Not Found - Course not found'
+    );
+  });
+});
+
+describe('course catalog', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  it('should pass course filters as query parameters', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { items: [], has_more_page: false } }),
+    } as unknown as Response);
+
+    await listCourses(
+      { search_text: 'safety', type: 'classroom', category_id: 4, language: 'en', status: 'published' },
+      mockBearerToken,
+      mockTenant
+    );
+
+    const url = new URL(vi.mocked(fetch).mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/learn/v1/courses');
+    expect(url.searchParams.get('search_text')).toBe('safety');
+    expect(url.searchParams.get('type[]')).toBe('classroom');
+    expect(url.searchParams.get('category[]')).toBe('4');
+    expect(url.searchParams.get('lang_code')).toBe('en');
+    expect(url.searchParams.get('status')).toBe('published');
+  });
+
+  it('should include sessions and enrollment policy for classroom courses', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: { id: 7, name: 'Forklift', type: 'classroom', subscribe_method: 1, sub_end_date: '2026-12-31', max_num_subscribe: 0 },
+        }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: { items: [{ id: 70, name: 'Morning session', max_enroll: 12 }] } }),
+      } as Response);
+
+    const course = await getCourseDetails(7, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://riccardo-lr-test.docebosaas.com/course/v1/courses/7/sessions?page=1&page_size=200');
+    expect(course.enrollment_policy).toEqual({ self_enrollment: 'moderated', enrollment_end: '2026-12-31' });
+    expect(course.sessions).toEqual([{ id: 70, name: 'Morning session', max_enroll: 12 }]);
+  });
+
+  it('should not fetch sessions for e-learning courses', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { id: 8, name: 'Safety 101', type: 'elearning', subscribe_method: 2 } }),
+    } as Response);
+
+    const course = await getCourseDetails(8, mockBearerToken, mockTenant);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(course.enrollment_policy.self_enrollment).toBe('free');
+    expect(course.sessions).toEqual([]);
+  });
+});
+
+describe('enrollment management', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  it('should list enrollments filtered by user and status', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { items: [{ id_user: 123, id_course: 456 }], has_more_page: false } }),
+    } as unknown as Response);
+
+    const result = await listEnrollments({ user_id: 123, status: 'in_progress' }, mockBearerToken, mockTenant);
+
+    const url = new URL(vi.mocked(fetch).mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/learn/v1/enrollments');
+    expect(url.searchParams.get('user_id[]')).toBe('123');
+    expect(url.searchParams.get('status[]')).toBe('in_progress');
+    expect(result.data.items).toHaveLength(1);
+  });
+
+  it('should update only the given enrollment fields', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    const result = await updateEnrollment(
+      { user_id: 123, course_id: 456, status: 'completed', date_expire_validity: '2026-12-31' },
+      mockBearerToken,
+      mockTenant
+    );
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/learn/v1/enrollments/456/123');
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(init?.body as string)).toEqual({ status: 'completed', date_expire_validity: '2026-12-31' });
+    expect(result).toEqual({ success: true, user_id: 123, course_id: 456, updated: ['status', 'date_expire_validity'] });
+  });
+
+  it('should unenroll a user', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('{"data":[]}'));
+
+    const result = await unenrollUser({ user_id: 123, course_id: 456 }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/learn/v1/enrollments/456/123');
+    expect(init?.method).toBe('DELETE');
+    expect(result).toEqual({ success: true, user_id: 123, course_id: 456 });
+  });
+
+  it('should surface enrollment API errors', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Not found', { status: 404, statusText: 'Not Found' }));
+
+    await expect(unenrollUser({ user_id: 1, course_id: 2 }, mockBearerToken, mockTenant)).rejects.toThrow(
+      'Docebo unenrollment API error: 404 Not Found - Not found'
+    );
+  });
+});
+
+describe('bulkEnroll', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  const enrollmentReply = (errors: unknown[]) => new Response(JSON.stringify({ data: { errors } }));
+
+  it('should report a status for every user and course pair', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(enrollmentReply([
+      {
+        enrolled: [
+          { id_user: 1, id_course: 10, waiting: false },
+          { id_user: 2, id_course: 10, waiting: true },
+        ],
+        already_enrolled: [{ id_user: 1, id_course: 11 }],
+        failed: [{ id_user: 2, id_course: 11, message: 'Course is full' }],
+      },
+    ]));
+
+    const result = await bulkEnroll({ user_ids: [1, 2, 3], course_ids: [10, 11] }, mockBearerToken, mockTenant);
+
+    expect(result.results).toEqual([
+      { user_id: 1, course_id: 10, status: 'enrolled' },
+      { user_id: 1, course_id: 11, status: 'already_enrolled' },
+      { user_id: 2, course_id: 10, status: 'waiting' },
+      { user_id: 2, course_id: 11, status: 'failed', reason: 'Course is full' },
+      { user_id: 3, course_id: 10, status: 'failed', reason: 'No result reported by Docebo' },
+      { user_id: 3, course_id: 11, status: 'failed', reason: 'No result reported by Docebo' },
+    ]);
+    expect(result.summary).toEqual({ enrolled: 1, waiting: 1, already_enrolled: 1, failed: 3 });
+  });
+
+  it('should chunk large requests and keep going when a chunk fails', async () => {
+    const userIds = Array.from({ length: 150 }, (_, i) => i + 1);
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(enrollmentReply([
+        { enrolled: userIds.slice(0, 100).map((id) => ({ id_user: id, id_course: 10, waiting: false })) },
+      ]))
+      .mockResolvedValueOnce(new Response('Server error', { status: 500, statusText: 'Internal Server Error' }));
+
+    const result = await bulkEnroll({ user_ids: userIds, course_ids: [10] }, mockBearerToken, mockTenant);
+
+    const bodies = vi.mocked(fetch).mock.calls.map((call) => JSON.parse(call[1]?.body as string));
+    expect(bodies.map((body) => body.user_ids.length)).toEqual([100, 50]);
+    expect(result.summary).toEqual({ enrolled: 100, waiting: 0, already_enrolled: 0, failed: 50 });
+    expect(result.results[149].reason).toContain('500 Internal Server Error');
+  });
+
+  it('should stop at an expired token instead of reporting failed pairs', async () => {
+    const userIds = Array.from({ length: 150 }, (_, i) => i + 1);
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 401, statusText: 'Unauthorized' }));
+
+    await expect(bulkEnroll({ user_ids: userIds, course_ids: [10] }, mockBearerToken, mockTenant))
+      .rejects.toBeInstanceOf(DoceboAuthExpiredError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve users from a branch across pages', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: { items: [{ user_id: 1 }], has_more_page: true } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: { items: [{ user_id: 2 }], has_more_page: false } })))
+      .mockResolvedValueOnce(enrollmentReply([]));
+
+    await bulkEnroll({ branch_id: 5, user_ids: [2], course_ids: [10] }, mockBearerToken, mockTenant);
+
+    const urls = vi.mocked(fetch).mock.calls.map((call) => String(call[0]));
+    expect(urls[0]).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/orgchart/5/users?page=1&page_size=200');
+    expect(urls[1]).toContain('page=2');
+    expect(JSON.parse(vi.mocked(fetch).mock.calls[2][1]?.body as string).user_ids).toEqual([2, 1]);
+  });
+
+  it('should reject a group too large to enroll at once as an argument error', async () => {
+    const members = Array.from({ length: 200 }, (_, i) => ({ user_id: i + 1 }));
+    vi.mocked(fetch).mockImplementation(async () => new Response(JSON.stringify({ data: { items: members, has_more_page: true } })));
+
+    await expect(bulkEnroll({ group_id: 5, course_ids: [10] }, mockBearerToken, mockTenant))
+      .rejects.toBeInstanceOf(ToolArgumentError);
+    expect(fetch).toHaveBeenCalledTimes(26);
+    vi.mocked(fetch).mockReset();
+  });
+});
+
+describe('user lifecycle', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  it('should create a user with a random password to change at first login', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({ data: { user_id: '42' } })));
+
+    const result = await createUser(
+      { username: 'jdoe', email: 'jdoe@example.com', first_name: 'Jane', last_name: 'Doe', branch_id: 5, additional_fields: { '12': 'Sales' } },
+      mockBearerToken,
+      mockTenant
+    );
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    const body = JSON.parse(init?.body as string);
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/user');
+    expect(init?.method).toBe('POST');
+    expect(body).toMatchObject({
+      userid: 'jdoe',
+      email: 'jdoe@example.com',
+      firstname: 'Jane',
+      lastname: 'Doe',
+      force_change: 1,
+      send_notification_email: false,
+      select_orgchart: { '5': 1 },
+      additional_fields: { '12': 'Sales' },
+    });
+    expect(body.password).toHaveLength(24);
+    expect(result).toEqual({ user_id: 42, username: 'jdoe' });
+  });
+
+  it('should update only the given user fields', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    const result = await updateUser({ user_id: 42, last_name: 'Smith', additional_fields: { '12': 'HR' } }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/user/42');
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(init?.body as string)).toEqual({ lastname: 'Smith', additional_fields: { '12': 'HR' } });
+    expect(result).toEqual({ success: true, user_id: 42, updated: ['last_name', 'additional_fields'] });
+  });
+
+  it('should deactivate a user', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    await setUserStatus({ user_id: 42, status: 'inactive' }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/user/change_status');
+    expect(JSON.parse(init?.body as string)).toEqual({ user_ids: [42], status: 0 });
+  });
+});
+
+describe('learning plans', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  const planCourses = () => new Response(JSON.stringify({
+    data: { items: [{ id: 7, name: 'Safety 101' }, { id: 8, name: 'Forklift' }, { id: 9, name: 'First aid' }] },
+  }));
+
+  it('should include the courses of a learning plan across pages', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: { id: 4, name: 'Onboarding' } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { items: [{ id: 7, name: 'Safety 101' }, { id: 8, name: 'Forklift' }], has_more_page: true },
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: { items: [{ id: 9, name: 'First aid' }], has_more_page: false } })));
+
+    const plan = await getLearningPlanDetails(4, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://riccardo-lr-test.docebosaas.com/learningplan/v1/learningplans/4/courses?page=1&page_size=200');
+    expect(vi.mocked(fetch).mock.calls[2][0]).toBe('https://riccardo-lr-test.docebosaas.com/learningplan/v1/learningplans/4/courses?page=2&page_size=200');
+    expect(plan.name).toBe('Onboarding');
+    expect(plan.courses.map((course) => course.id)).toEqual([7, 8, 9]);
+  });
+
+  it('should enroll users into a learning plan', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    await enrollLearningPlan({ learning_plan_id: 4, user_ids: [1, 2], date_expire_validity: '2026-12-31' }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/learningplan/v1/learningplans/4/enrollments');
+    expect(JSON.parse(init?.body as string)).toEqual({ user_ids: [1, 2], date_expire_validity: '2026-12-31' });
+  });
+
+  it("should compute a user's progress from their course enrollments", async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(planCourses())
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { items: [{ id_user: 3, id_course: 7, status: 'completed', completion_date: '2026-03-01' }], has_more_page: true },
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { items: [{ id_user: 3, id_course: 8, status: 'in_progress' }, { id_user: 3, id_course: 99, status: 'completed' }], has_more_page: false },
+      })));
+
+    const progress = await getLearningPlanProgress(4, 3, mockBearerToken, mockTenant);
+
+    expect(progress).toEqual({
+      learning_plan_id: 4,
+      user_id: 3,
+      total_courses: 3,
+      completed_courses: 1,
+      percent_complete: 33,
+      courses: [
+        { course_id: 7, name: 'Safety 101', status: 'completed', completion_date: '2026-03-01' },
+        { course_id: 8, name: 'Forklift', status: 'in_progress' },
+        { course_id: 9, name: 'First aid', status: 'not_enrolled' },
+      ],
+    });
+  });
+});
+
+describe('classroom sessions', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  it('should report seats and fetch events of each session', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { items: [{ id: 70, name: 'Morning', max_enroll: 12, enrolled: 12, waiting: 2 }] },
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { items: [{ id: 5, date_begin: '2026-11-02 09:00:00', location: 'Room A' }] },
+      })));
+
+    const sessions = await listClassroomSessions(7, { include_events: true }, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://riccardo-lr-test.docebosaas.com/course/v1/courses/7/sessions/70/events');
+    expect(sessions[0].seats).toEqual({ max: 12, enrolled: 12, available: 0, waiting: 2 });
+    expect(sessions[0].events?.[0].location).toBe('Room A');
+  });
+
+  it('should treat sessions without a seat limit as unlimited', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+      data: { items: [{ id: 71, name: 'Open', max_enroll: 0, enrolled: 4 }] },
+    })));
+
+    const [session] = await listClassroomSessions(7, {}, mockBearerToken, mockTenant);
+
+    expect(session.seats).toEqual({ max: null, enrolled: 4, available: null, waiting: 0 });
+    expect(session).not.toHaveProperty('events');
+  });
+
+  it('should report when a session enrollment lands on the waiting list', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({ data: { waiting: true } })));
+
+    const result = await enrollSessionUser({ user_id: 3, course_id: 7, session_id: 70 }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/course/v1/courses/7/sessions/70/enrollments');
+    expect(JSON.parse(init?.body as string)).toEqual({ user_ids: [3], level: 3 });
+    expect(result.status).toBe('waiting');
+  });
+
+  it('should mark attendance for every user', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    await markAttendance({ course_id: 7, session_id: 70, event_id: 5, user_ids: [3, 4], attended: true }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/course/v1/courses/7/sessions/70/events/5/attendance');
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(init?.body as string)).toEqual({
+      attendance: [{ user_id: 3, attended: 1 }, { user_id: 4, attended: 1 }],
+    });
+  });
+});
+
+describe('listExpiringCertifications', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+  const now = Date.parse('2026-10-01T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  const page = (items: unknown[], hasMore: boolean) => new Response(JSON.stringify({
+    data: { items, total_count: items.length, current_page: 1, page_size: 200, has_more_page: hasMore },
+  }));
+
+  // Replies by URL, since holder pages of several certifications are fetched at once
+  const mockPages = (pages: Record<string, Response | (() => Response)>) => {
+    vi.mocked(fetch).mockImplementation(async (url) => {
+      const path = String(url).replace(`https://${mockTenant}.docebosaas.com`, '');
+      const reply = pages[path];
+      if (!reply) throw new Error(`Unexpected request: ${path}`);
+      return typeof reply === 'function' ? reply() : reply;
+    });
+  };
+
+  afterEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('should collect holders expiring within the window across certifications, soonest first', async () => {
+    mockPages({
+      '/learn/v1/certifications?page=1&page_size=200': page([{ id: 1, title: 'Forklift' }, { id: 2, title: 'First aid' }], false),
+      '/learn/v1/certifications/1/users?page=1&page_size=200': page([
+        { user_id: 3, expire_on: '2026-10-20' },
+        { user_id: 4, expire_on: '2026-09-30' }, // Already expired
+      ], true),
+      '/learn/v1/certifications/1/users?page=2&page_size=200': page([{ user_id: 5, expire_on: null }], false), // Never expires
+      '/learn/v1/certifications/2/users?page=1&page_size=200': page([
+        { user_id: 6, expire_on: '2026-10-05 00:00:00' },
+        { user_id: 7, expire_on: '2026-12-01' }, // Outside the window
+      ], false),
+    });
+
+    const result = await listExpiringCertifications({ days: 30 }, mockBearerToken, mockTenant, now);
+
+    expect(result.expiring_before).toBe('2026-10-31');
+    expect(result.data.items.map((item) => [item.user_id, item.certification_title, item.days_remaining])).toEqual([
+      [6, 'First aid', 4],
+      [3, 'Forklift', 19],
+    ]);
+    expect(result.data).toMatchObject({ count: 2, has_more_page: false });
+    expect(result.next).toBeUndefined();
+  });
+
+  it('should stop after a bounded number of pages and continue from where it stopped', async () => {
+    let fetched = 0;
+    mockPages(Object.fromEntries(Array.from({ length: 30 }, (_, i) => [
+      `/learn/v1/certifications/9/users?page=${i + 1}&page_size=200`,
+      () => {
+        fetched++;
+        return page([{ user_id: i + 1, expire_on: '2026-10-02' }], i < 29);
+      },
+    ])));
+
+    const first = await listExpiringCertifications({ days: 7, certification_id: 9 }, mockBearerToken, mockTenant, now);
+
+    expect(fetched).toBe(25);
+    expect(first.data).toMatchObject({ count: 25, has_more_page: true });
+    expect(first.next).toEqual({ active: [[9, 26]], started: 9 });
+
+    const rest = await listExpiringCertifications({ days: 7, certification_id: 9, from: first.next }, mockBearerToken, mockTenant, now);
+
+    expect(fetched).toBe(30);
+    expect(rest.data.items.map((item) => item.user_id)).toEqual([26, 27, 28, 29, 30]);
+    expect(rest.data.has_more_page).toBe(false);
+  });
+
+  it('should resume by certification ID when certifications changed between calls', async () => {
+    // Certification 3 was being scanned and has since been deleted; 2 was already done
+    mockPages({
+      '/learn/v1/certifications?page=1&page_size=200': page([{ id: 7, title: 'Crane' }, { id: 2, title: 'First aid' }, { id: 5, title: 'Forklift' }], false),
+      '/learn/v1/certifications/5/users?page=1&page_size=200': page([{ user_id: 8, expire_on: '2026-10-03' }], false),
+      '/learn/v1/certifications/7/users?page=1&page_size=200': page([{ user_id: 9, expire_on: '2026-10-04' }], false),
+    });
+
+    const result = await listExpiringCertifications({ days: 7, from: { active: [[3, 2]], started: 3 } }, mockBearerToken, mockTenant, now);
+
+    expect(result.data.items.map((item) => [item.user_id, item.certification_id])).toEqual([[8, 5], [9, 7]]);
+    expect(result.next).toBeUndefined();
+  });
+});
+
+describe('getUserProgress', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  const page = (items: unknown[], hasMore: boolean) => new Response(JSON.stringify({
+    data: { items, total_count: items.length, current_page: 1, page_size: 200, has_more_page: hasMore },
+  }));
+
+  afterEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  // Enrollments and certificates are fetched concurrently, so route by URL
+  const mockEndpoints = (enrollmentPages: Response[], certificates: unknown[]) => {
+    vi.mocked(fetch).mockImplementation(async (url) =>
+      String(url).includes('/certificates') ? page(certificates, false) : enrollmentPages.shift()!
+    );
+  };
+
+  it('should aggregate enrollments across pages with scores, time and certificates', async () => {
+    mockEndpoints(
+      [
+        page([{ id_user: 3, id_course: 7, course_name: 'Safety 101', status: 'completed', score: 90, total_time: 1200, completion_date: '2026-08-02 10:00:00' }], true),
+        page([
+          { id_user: 3, id_course: 8, course_name: 'Forklift', status: 'in_progress', score: 70, total_time: 600 },
+          { id_user: 3, id_course: 9, course_name: 'First aid', status: 'subscribed', score: null },
+        ], false),
+      ],
+      [{ id_course: 7, title: 'Safety certificate', issued_on: '2026-08-02' }]
+    );
+
+    const report = await getUserProgress({ user_id: 3 }, mockBearerToken, mockTenant);
+
+    expect(report.summary).toEqual({
+      total: 3,
+      completed: 1,
+      in_progress: 1,
+      not_started: 1,
+      time_spent_seconds: 1800,
+      average_score: 80,
+    });
+    expect(report.enrollments[0].certificate?.title).toBe('Safety certificate');
+    expect(report.enrollments[2]).toMatchObject({ course_id: 9, score: null, time_spent_seconds: 0 });
+    expect(report.enrollments[2]).not.toHaveProperty('certificate');
+  });
+
+  it('should keep only enrollments completed within the date range', async () => {
+    mockEndpoints(
+      [page([
+        { id_user: 3, id_course: 7, status: 'completed', completion_date: '2026-06-30 23:59:00' },
+        { id_user: 3, id_course: 8, status: 'completed', completion_date: '2026-07-01 08:00:00' },
+        { id_user: 3, id_course: 9, status: 'in_progress' },
+      ], false)],
+      []
+    );
+
+    const report = await getUserProgress(
+      { user_id: 3, completed_from: '2026-07-01', completed_to: '2026-09-30' },
+      mockBearerToken,
+      mockTenant
+    );
+
+    expect(report.enrollments.map((course) => course.course_id)).toEqual([8]);
+    expect(report.summary.average_score).toBeNull();
+  });
+});
+
+describe('branches and groups', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(tenants.getTenantApiUrl).mockReturnValue(
+      `https://${mockTenant}.docebosaas.com`
+    );
+  });
+
+  const emptyPage = () => new Response(JSON.stringify({
+    data: { items: [], total_count: 0, current_page: 1, page_size: 20, has_more_page: false },
+  }));
+
+  it('should list top-level branches or the children of a branch', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(emptyPage()).mockResolvedValueOnce(emptyPage());
+
+    await listBranches({ search_text: 'sales' }, mockBearerToken, mockTenant);
+    await listBranches({ parent_id: 12, page: 2 }, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/orgchart?search_text=sales');
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/orgchart/12/children?page=2');
+  });
+
+  it('should list groups', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(emptyPage());
+
+    await listGroups({ page_size: 50 }, mockBearerToken, mockTenant);
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/group?page_size=50');
+  });
+
+  it('should remove users from a group', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(''));
+
+    const result = await removeGroupMembers({ group_id: 4, user_ids: [3, 5] }, mockBearerToken, mockTenant);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://riccardo-lr-test.docebosaas.com/manage/v1/group/4/members');
+    expect(init?.method).toBe('DELETE');
+    expect(JSON.parse(init?.body as string)).toEqual({ user_ids: [3, 5] });
+    expect(result).toEqual({ success: true, group_id: 4, user_ids: [3, 5] });
+  });
+});
@@ -3,7 +3,17 @@
  * Handles authenticated API calls using client-provided tokens
  */
 
-import { getTenantApiUrl } from './tenants.js';
+import * as crypto from 'crypto';
+import { doceboUrl, doceboFetch, doceboRequest, errorFromResponse, paginate, collectPages, ListPage } from './docebo-client.js';
+import { DoceboApiError, DoceboAuthExpiredError, DoceboUnavailableError } from './docebo-errors.js';
+import { ToolArgumentError } from './tool-registry.js';
+import {
+  HarmonyAuth,
+  getCachedHarmonyAuth,
+  cacheHarmonyAuth,
+  invalidateHarmonyAuth,
+  resolveTokenExpiry,
+} from './harmony-auth-cache.js';
 
 export interface DoceboUser {
   user_id: number;
@@ -11,6 +21,16 @@ export interface DoceboUser {
   email: string;
   first_name: string;
   last_name: string;
+  uuid?: string;
+  level?: string; // godadmin, power_user, user
+  status?: string; // "1" active, "0" inactive
+  language?: string;
+  timezone?: string;
+  creation_date?: string;
+  last_access_date?: string;
+  expiration_date?: string | null;
+  email_validation_status?: string;
+  manager_names?: Record<string, unknown>;
   [key: string]: unknown; // Allow other fields
 }
 
@@ -36,13 +56,6 @@ export interface ListUsersParams {
  * List users from Docebo
  */
 export async function listUsers(params: ListUsersParams = {}, bearerToken: string, tenant: string): Promise<ListUsersResponse> {
-  // Get tenant API URL
-  const baseUrl = getTenantApiUrl(tenant);
-
-  if (!baseUrl) {
-    throw new Error(`Tenant '${tenant}' is not configured`);
-  }
-
   // Build query string
   const queryParams = new URLSearchParams();
   if (params.page) queryParams.set('page', params.page.toString());
@@ -51,24 +64,11 @@ export async function listUsers(params: ListUsersParams = {}, bearerToken: strin
   if (params.sort_dir) queryParams.set('sort_dir', params.sort_dir);
   if (params.search_text) queryParams.set('search_text', params.search_text);
 
-  const url = `${baseUrl}/manage/v1/user?${queryParams.toString()}`;
+  const url = doceboUrl(tenant, `/manage/v1/user?${queryParams.toString()}`);
 
   console.log('[Docebo] Fetching users from', url);
 
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${bearerToken}`,
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `Docebo API error: ${response.status} ${response.statusText} - ${text}`
-    );
-  }
+  const response = await doceboRequest({ method: 'GET', url, token: bearerToken, label: 'Docebo API' });
 
   const data = await response.json() as ListUsersResponse;
 
@@ -97,13 +97,127 @@ export interface EnrollUserResponse {
   [key: string]: unknown;
 }
 
+export type EnrollmentStatus = 'subscribed' | 'in_progress' | 'completed' | 'suspended' | 'waiting';
+
+export interface DoceboEnrollment {
+  id_user: number;
+  id_course: number;
+  username?: string;
+  course_name?: string;
+  status?: string;
+  level?: number;
+  enrollment_date?: string;
+  date_begin_validity?: string;
+  date_expire_validity?: string;
+  completion_date?: string;
+  score?: number | null;
+  total_time?: number; // Seconds spent in the course
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListEnrollmentsParams {
+  user_id?: number;
+  course_id?: number;
+  status?: EnrollmentStatus;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ListEnrollmentsResponse {
+  data: {
+    items: DoceboEnrollment[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+// Same shape as an enrollment request; only the fields given are changed
+export interface UpdateEnrollmentParams extends EnrollUserParams {
+  status?: EnrollmentStatus;
+}
+
+// Enrollment fields that docebo_update_enrollment can change
+export const ENROLLMENT_UPDATE_FIELDS = [
+  'status',
+  'level',
+  'assignment_type',
+  'date_begin_validity',
+  'date_expire_validity',
+] as const satisfies ReadonlyArray<keyof UpdateEnrollmentParams>;
+
+export interface UpdateEnrollmentResponse {
+  success: true;
+  user_id: number;
+  course_id: number;
+  updated: string[]; // Fields that were changed
+}
+
+export type UnenrollUserParams = Pick<EnrollUserParams, 'user_id' | 'course_id'>;
+
+export interface UnenrollUserResponse {
+  success: true;
+  user_id: number;
+  course_id: number;
+}
+
+export interface BulkEnrollParams extends Omit<EnrollUserParams, 'user_id' | 'course_id'> {
+  course_ids: number[];
+  user_ids?: number[];
+  branch_id?: number; // Enroll the branch's users
+  group_id?: number; // Enroll the group's members
+}
+
+export type BulkEnrollmentStatus = 'enrolled' | 'waiting' | 'already_enrolled' | 'failed';
+
+export interface BulkEnrollmentResult {
+  user_id: number;
+  course_id: number;
+  status: BulkEnrollmentStatus;
+  reason?: string; // Only for failed
+}
+
+export interface BulkEnrollResponse {
+  summary: Record<BulkEnrollmentStatus, number>;
+  results: BulkEnrollmentResult[];
+}
+
 export interface HarmonySearchParams {
   query: string;
 }
 
+// An open Geppetto chat session; the Geppetto token comes from the auth cache on each call
+export interface HarmonySession {
+  sessionId: string;
+}
+
+export interface HarmonySearchEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface HarmonySearchOptions {
+  onEvent?: (event: HarmonySearchEvent) => void; // Called as each SSE event arrives
+  includeRaw?: boolean; // Also return the raw events and stream text (debugging)
+}
+
+// A course or asset the answer was grounded on
+export interface HarmonyCitation {
+  type: string; // course, learning_object, asset, ...
+  id: number | string;
+  title: string;
+  url?: string;
+}
+
 export interface HarmonySearchResponse {
-  // TODO: Define response structure once API details are provided
-  [key: string]: unknown;
+  query: string;
+  sessionId: string;
+  answer: string;
+  citations: HarmonyCitation[];
+  followUps: string[]; // Suggested follow-up questions
+  events?: HarmonySearchEvent[]; // Only with includeRaw
+  rawStream?: string; // Only with includeRaw
 }
 
 interface BootstrapResponse {
@@ -128,11 +242,7 @@ export async function enrollUser(
   bearerToken: string,
   tenant: string
 ): Promise<EnrollUserResponse> {
-  const baseUrl = getTenantApiUrl(tenant);
-
-  if (!baseUrl) {
-    throw new Error(`Tenant '${tenant}' is not configured`);
-  }
+  const url = doceboUrl(tenant, '/learn/v1/enrollments');
 
   console.log('[Docebo] Enrolling user', params.user_id, 'in course', params.course_id);
 
@@ -147,25 +257,15 @@ export async function enrollUser(
     consider_ef_as_optional: true, // Don't enforce additional enrollment fields
   };
 
-  const url = `${baseUrl}/learn/v1/enrollments`;
-
-  const response = await fetch(url, {
+  // Not idempotent: only retried on 429, which Docebo sends before processing the request
+  const response = await doceboRequest({
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${bearerToken}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    },
-    body: JSON.stringify(enrollmentBody),
+    url,
+    token: bearerToken,
+    body: enrollmentBody,
+    label: 'Docebo enrollment API',
   });
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `Docebo enrollment API error: ${response.status} ${response.statusText} - ${text}`
-    );
-  }
-
   const data = await response.json() as {
     data: {
       errors?: Array<{
@@ -208,38 +308,433 @@ export async function enrollUser(
 }
 
 /**
- * Search Docebo using Harmony Search (RAG)
- * This function will call 2-3 APIs to retrieve comprehensive search results
+ * List enrollments of a user, of a course, or of a user in a course
+ */
+export async function listEnrollments(
+  params: ListEnrollmentsParams,
+  bearerToken: string,
+  tenant: string
+): Promise<ListEnrollmentsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.user_id) queryParams.set('user_id[]', params.user_id.toString());
+  if (params.course_id) queryParams.set('course_id[]', params.course_id.toString());
+  if (params.status) queryParams.set('status[]', params.status);
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  const data = await getJson<ListEnrollmentsResponse>(
+    `/learn/v1/enrollments?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'enrollments'
+  );
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'enrollments');
+
+  return data;
+}
+
+/**
+ * Update the status, level, assignment type or validity dates of an enrollment
+ */
+export async function updateEnrollment(
+  params: UpdateEnrollmentParams,
+  bearerToken: string,
+  tenant: string
+): Promise<UpdateEnrollmentResponse> {
+  const { user_id, course_id } = params;
+  const updated = ENROLLMENT_UPDATE_FIELDS.filter((field) => params[field] !== undefined);
+  const changes = Object.fromEntries(updated.map((field) => [field, params[field]]));
+
+  console.log('[Docebo] Updating enrollment of user', user_id, 'in course', course_id, ':', updated.join(', '));
+
+  await sendJson(
+    'PUT',
+    `/learn/v1/enrollments/${course_id}/${user_id}`,
+    changes,
+    bearerToken,
+    tenant,
+    'enrollment update'
+  );
+
+  return { success: true, user_id, course_id, updated };
+}
+
+/**
+ * Remove a user's enrollment from a course
+ */
+export async function unenrollUser(
+  params: UnenrollUserParams,
+  bearerToken: string,
+  tenant: string
+): Promise<UnenrollUserResponse> {
+  console.log('[Docebo] Unenrolling user', params.user_id, 'from course', params.course_id);
+
+  await sendJson(
+    'DELETE',
+    `/learn/v1/enrollments/${params.course_id}/${params.user_id}`,
+    {},
+    bearerToken,
+    tenant,
+    'unenrollment'
+  );
+
+  return { success: true, user_id: params.user_id, course_id: params.course_id };
+}
+
+// Users and courses per bulk enrollment request
+const BULK_USERS_PER_REQUEST = 100;
+const BULK_COURSES_PER_REQUEST = 10;
+
+// Upper bound on users resolved from a branch or group
+const MAX_RESOLVED_USERS = 5000;
+
+// Per-item entries of Docebo's enrollment "errors" array (it reports successes there too)
+interface EnrollmentResultEntry {
+  enrolled?: Array<{ id_user: number; id_course: number; waiting?: boolean }>;
+  already_enrolled?: Array<{ id_user: number; id_course: number }>;
+  existing?: Array<{ id_user: number; id_course: number }>;
+  failed?: Array<{ id_user: number; id_course: number; message?: string; reason?: string }>;
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Enroll many users in many courses
+ * Users can be given directly and/or resolved from a branch or group. Requests
+ * are chunked; every user × course pair gets a result, including pairs of a
+ * chunk that failed as a whole.
+ */
+export async function bulkEnroll(params: BulkEnrollParams, bearerToken: string, tenant: string): Promise<BulkEnrollResponse> {
+  const userIds = await resolveBulkUserIds(params, bearerToken, tenant);
+  const courseIds = [...new Set(params.course_ids)];
+
+  console.log('[Docebo] Bulk enrolling', userIds.length, 'users in', courseIds.length, 'courses');
+
+  const results: BulkEnrollmentResult[] = [];
+
+  for (const userChunk of chunk(userIds, BULK_USERS_PER_REQUEST)) {
+    for (const courseChunk of chunk(courseIds, BULK_COURSES_PER_REQUEST)) {
+      try {
+        const data = await sendJson<{ data?: { errors?: EnrollmentResultEntry[] } }>(
+          'POST',
+          '/learn/v1/enrollments',
+          {
+            user_ids: userChunk,
+            course_ids: courseChunk,
+            level: params.level || 3, // Default to student
+            assignment_type: params.assignment_type,
+            date_begin_validity: params.date_begin_validity,
+            date_expire_validity: params.date_expire_validity,
+            consider_ef_as_optional: true, // Don't enforce additional enrollment fields
+          },
+          bearerToken,
+          tenant,
+          'bulk enrollment'
+        );
+
+        results.push(...parseEnrollmentResults(userChunk, courseChunk, data.data?.errors ?? []));
+      } catch (error) {
+        // An expired token or a cancelled call fails every remaining chunk too
+        if (!(error instanceof DoceboApiError) || error instanceof DoceboAuthExpiredError) {
+          throw error;
+        }
+
+        const reason = error.message;
+        results.push(...pairs(userChunk, courseChunk).map(([user_id, course_id]) => ({
+          user_id,
+          course_id,
+          status: 'failed' as const,
+          reason,
+        })));
+      }
+    }
+  }
+
+  const summary: Record<BulkEnrollmentStatus, number> = { enrolled: 0, waiting: 0, already_enrolled: 0, failed: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+
+  console.log('[Docebo] Bulk enrollment finished:', JSON.stringify(summary));
+
+  return { summary, results };
+}
+
+/**
+ * Map Docebo's per-item enrollment report to a result for every requested pair
+ * Pairs Docebo does not mention are reported as failed.
+ */
+function parseEnrollmentResults(
+  userIds: number[],
+  courseIds: number[],
+  entries: EnrollmentResultEntry[]
+): BulkEnrollmentResult[] {
+  const reported = new Map<string, BulkEnrollmentResult>();
+  const messages: string[] = [];
+
+  const report = (user_id: number, course_id: number, status: BulkEnrollmentStatus, reason?: string) => {
+    reported.set(`${user_id}:${course_id}`, { user_id, course_id, status, ...(reason ? { reason } : {}) });
+  };
+
+  for (const entry of entries) {
+    for (const item of entry.enrolled ?? []) {
+      report(item.id_user, item.id_course, item.waiting ? 'waiting' : 'enrolled');
+    }
+    for (const item of [...(entry.already_enrolled ?? []), ...(entry.existing ?? [])]) {
+      report(item.id_user, item.id_course, 'already_enrolled');
+    }
+    for (const item of entry.failed ?? []) {
+      report(item.id_user, item.id_course, 'failed', item.message ?? item.reason ?? 'Enrollment failed');
+    }
+    if (typeof entry.message === 'string') {
+      messages.push(entry.message);
+    }
+  }
+
+  const fallbackReason = messages.length > 0 ? messages.join('; ') : 'No result reported by Docebo';
+
+  return pairs(userIds, courseIds).map(([user_id, course_id]) =>
+    reported.get(`${user_id}:${course_id}`) ?? { user_id, course_id, status: 'failed', reason: fallbackReason }
+  );
+}
+
+async function resolveBulkUserIds(params: BulkEnrollParams, bearerToken: string, tenant: string): Promise<number[]> {
+  const userIds = new Set(params.user_ids ?? []);
+
+  if (params.branch_id !== undefined) {
+    const branchId = params.branch_id;
+    for (const id of await collectUserIds((page) => listBranchUsers(branchId, { page, page_size: 200 }, bearerToken, tenant))) {
+      userIds.add(id);
+    }
+  }
+
+  if (params.group_id !== undefined) {
+    const groupId = params.group_id;
+    for (const id of await collectUserIds((page) => listGroupMembers(groupId, { page, page_size: 200 }, bearerToken, tenant))) {
+      userIds.add(id);
+    }
+  }
+
+  return [...userIds];
+}
+
+/**
+ * Page through a user listing and collect the user IDs
+ * Throws ToolArgumentError once the listing exceeds MAX_RESOLVED_USERS.
+ */
+async function collectUserIds(fetchPage: (page: number) => Promise<ListUsersResponse>): Promise<number[]> {
+  const ids: number[] = [];
+
+  for await (const { items } of paginate(fetchPage)) {
+    ids.push(...items.map((user) => user.user_id));
+
+    if (ids.length > MAX_RESOLVED_USERS) {
+      throw new ToolArgumentError(
+        `Too many users to enroll at once (more than ${MAX_RESOLVED_USERS} in the branch or group); pass user_ids in smaller sets instead`
+      );
+    }
+  }
+
+  return ids;
+}
+
+export interface DoceboBranch {
+  id: number;
+  code?: string;
+  name: string;
+  parent_id?: number | null;
+  has_children?: boolean;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListBranchesParams {
+  parent_id?: number; // Children of this branch (default: top-level branches)
+  search_text?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ListBranchesResponse {
+  data: {
+    items: DoceboBranch[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+export interface DoceboGroup {
+  group_id: number;
+  name: string;
+  description?: string;
+  members_count?: number;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListGroupsParams {
+  search_text?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ListGroupsResponse {
+  data: {
+    items: DoceboGroup[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+export interface GroupMembershipParams {
+  group_id: number;
+  user_ids: number[];
+}
+
+export interface GroupMembershipResponse {
+  success: true;
+  group_id: number;
+  user_ids: number[];
+}
+
+/**
+ * List branches of the org chart: the top level, or the children of parent_id
+ */
+export async function listBranches(params: ListBranchesParams = {}, bearerToken: string, tenant: string): Promise<ListBranchesResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.search_text) queryParams.set('search_text', params.search_text);
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  const path = params.parent_id !== undefined
+    ? `/manage/v1/orgchart/${params.parent_id}/children`
+    : '/manage/v1/orgchart';
+
+  const data = await getJson<ListBranchesResponse>(`${path}?${queryParams.toString()}`, bearerToken, tenant, 'branches');
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'branches');
+
+  return data;
+}
+
+/**
+ * List groups
+ */
+export async function listGroups(params: ListGroupsParams = {}, bearerToken: string, tenant: string): Promise<ListGroupsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.search_text) queryParams.set('search_text', params.search_text);
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  const data = await getJson<ListGroupsResponse>(`/manage/v1/group?${queryParams.toString()}`, bearerToken, tenant, 'groups');
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'groups');
+
+  return data;
+}
+
+/**
+ * Add users to a group
+ */
+export async function addGroupMembers(params: GroupMembershipParams, bearerToken: string, tenant: string): Promise<GroupMembershipResponse> {
+  console.log('[Docebo] Adding', params.user_ids.length, 'users to group', params.group_id);
+
+  await sendJson('POST', `/manage/v1/group/${params.group_id}/members`, { user_ids: params.user_ids }, bearerToken, tenant, 'group members');
+
+  return { success: true, group_id: params.group_id, user_ids: params.user_ids };
+}
+
+/**
+ * Remove users from a group
+ */
+export async function removeGroupMembers(params: GroupMembershipParams, bearerToken: string, tenant: string): Promise<GroupMembershipResponse> {
+  console.log('[Docebo] Removing', params.user_ids.length, 'users from group', params.group_id);
+
+  await sendJson('DELETE', `/manage/v1/group/${params.group_id}/members`, { user_ids: params.user_ids }, bearerToken, tenant, 'group members');
+
+  return { success: true, group_id: params.group_id, user_ids: params.user_ids };
+}
+
+/**
+ * List the users of a branch (org chart node)
  */
-export async function harmonySearch(params: HarmonySearchParams, bearerToken: string, tenant: string): Promise<HarmonySearchResponse> {
-  // Get tenant API URL
-  const baseUrl = getTenantApiUrl(tenant);
+export async function listBranchUsers(
+  branchId: number,
+  params: { page?: number; page_size?: number },
+  bearerToken: string,
+  tenant: string
+): Promise<ListUsersResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  return getJson<ListUsersResponse>(
+    `/manage/v1/orgchart/${branchId}/users?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'branch users'
+  );
+}
+
+/**
+ * List the members of a group
+ */
+export async function listGroupMembers(
+  groupId: number,
+  params: { page?: number; page_size?: number },
+  bearerToken: string,
+  tenant: string
+): Promise<ListUsersResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  return getJson<ListUsersResponse>(
+    `/manage/v1/group/${groupId}/members?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'group members'
+  );
+}
 
-  if (!baseUrl) {
-    throw new Error(`Tenant '${tenant}' is not configured`);
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
   }
+  return chunks;
+}
+
+function pairs(userIds: number[], courseIds: number[]): Array<[number, number]> {
+  return userIds.flatMap((userId) => courseIds.map((courseId): [number, number] => [userId, courseId]));
+}
 
-  console.log('[Docebo] Harmony Search query:', params.query);
+/**
+ * Geppetto URLs and token for the caller, from the cache when still valid
+ * Otherwise fetches /manage/v1/site/bootstrap and /manage/v1/globalsearch/ai/auth.
+ */
+async function getHarmonyAuth(bearerToken: string, tenant: string): Promise<HarmonyAuth> {
+  const cached = getCachedHarmonyAuth(bearerToken, tenant);
+
+  if (cached) {
+    console.log('[Docebo] Using cached Geppetto auth for tenant:', tenant);
+    return cached;
+  }
 
   // Step 1: Call /manage/v1/site/bootstrap to get Geppetto URLs
-  const bootstrapUrl = `${baseUrl}/manage/v1/site/bootstrap`;
+  const bootstrapUrl = doceboUrl(tenant, '/manage/v1/site/bootstrap');
   console.log('[Docebo] Fetching bootstrap data from', bootstrapUrl);
 
-  const bootstrapResponse = await fetch(bootstrapUrl, {
+  const bootstrapResponse = await doceboRequest({
     method: 'GET',
-    headers: {
-      Authorization: `Bearer ${bearerToken}`,
-      Accept: 'application/json',
-    },
+    url: bootstrapUrl,
+    token: bearerToken,
+    label: 'Docebo bootstrap API',
   });
 
-  if (!bootstrapResponse.ok) {
-    const text = await bootstrapResponse.text();
-    throw new Error(
-      `Docebo bootstrap API error: ${bootstrapResponse.status} ${bootstrapResponse.statusText} - ${text}`
-    );
-  }
-
   const bootstrapData = await bootstrapResponse.json() as BootstrapResponse;
 
   // Extract Geppetto URLs
@@ -254,25 +749,17 @@ export async function harmonySearch(params: HarmonySearchParams, bearerToken: st
   }
 
   // Step 2: Get Geppetto authentication token
-  const geppettoAuthUrl = `${baseUrl}/manage/v1/globalsearch/ai/auth`;
+  const geppettoAuthUrl = doceboUrl(tenant, '/manage/v1/globalsearch/ai/auth');
   console.log('[Docebo] Fetching Geppetto auth token from', geppettoAuthUrl);
 
-  const geppettoAuthResponse = await fetch(geppettoAuthUrl, {
+  const geppettoAuthResponse = await doceboRequest({
     method: 'GET',
-    headers: {
-      Authorization: `Bearer ${bearerToken}`,
-      Accept: 'application/json',
-    },
+    url: geppettoAuthUrl,
+    token: bearerToken,
+    label: 'Docebo Geppetto auth API',
   });
 
-  if (!geppettoAuthResponse.ok) {
-    const text = await geppettoAuthResponse.text();
-    throw new Error(
-      `Docebo Geppetto auth API error: ${geppettoAuthResponse.status} ${geppettoAuthResponse.statusText} - ${text}`
-    );
-  }
-
-  const geppettoAuthData = await geppettoAuthResponse.json() as { data: { token: string } };
+  const geppettoAuthData = await geppettoAuthResponse.json() as { data: { token: string; expires_in?: number } };
   const geppettoToken = geppettoAuthData.data.token;
 
   console.log('[Docebo] Geppetto token obtained:', geppettoToken ? '[PRESENT]' : '[MISSING]');
@@ -281,101 +768,1334 @@ export async function harmonySearch(params: HarmonySearchParams, bearerToken: st
     throw new Error('Geppetto token not found in auth response');
   }
 
-  // Step 3: Start Geppetto session
-  console.log('[Docebo] Starting Geppetto session at', geppettoStartUrl);
-
-  const startSessionResponse = await fetch(geppettoStartUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${geppettoToken}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    },
-    body: JSON.stringify({}), // Empty body
+  return cacheHarmonyAuth(bearerToken, tenant, {
+    startUrl: geppettoStartUrl,
+    messageStreamUrl: geppettoMessageStreamUrl,
+    geppettoToken,
+    expiresAt: resolveTokenExpiry(geppettoToken, geppettoAuthData.data.expires_in),
   });
+}
 
-  if (!startSessionResponse.ok) {
-    const text = await startSessionResponse.text();
-    throw new Error(
-      `Geppetto start session error: ${startSessionResponse.status} ${startSessionResponse.statusText} - ${text}`
-    );
-  }
-
-  const startSessionData = await startSessionResponse.json() as { session: string };
-  const sessionId = startSessionData.session;
-
-  console.log('[Docebo] Geppetto session started:', sessionId);
+/**
+ * Call Geppetto with the caller's token, refreshing it once if Geppetto answers 401
+ */
+async function fetchWithHarmonyAuth(
+  bearerToken: string,
+  tenant: string,
+  request: (auth: HarmonyAuth) => Promise<Response>
+): Promise<Response> {
+  const response = await request(await getHarmonyAuth(bearerToken, tenant));
 
-  if (!sessionId) {
-    throw new Error('Session ID not found in start session response');
+  if (response.status !== 401) {
+    return response;
   }
 
-  // Step 4: Send the search query via message stream
-  console.log('[Docebo] Sending query to message stream:', geppettoMessageStreamUrl);
+  console.log('[Docebo] Geppetto token rejected, refreshing');
+  invalidateHarmonyAuth(bearerToken, tenant);
 
+  return request(await getHarmonyAuth(bearerToken, tenant));
+}
+
+/**
+ * Typed error for a Geppetto error reply
+ * A 401 here survived a Geppetto token refresh, while Docebo has just accepted the
+ * caller's token: reported as Harmony being unavailable, not as an expired token,
+ * which would have the client re-authorize in a loop.
+ */
+async function geppettoError(response: Response, label: string): Promise<DoceboApiError> {
+  const error = await errorFromResponse(response, label);
+  return error instanceof DoceboAuthExpiredError ? new DoceboUnavailableError(error.message, 401) : error;
+}
+
+/**
+ * Start a Geppetto chat session (bootstrap, Geppetto auth, start_url)
+ * The returned session can be reused with sendHarmonyMessage for follow-up
+ * questions that keep the conversational context.
+ */
+export async function startHarmonySession(bearerToken: string, tenant: string): Promise<HarmonySession> {
+  // Step 3: Start Geppetto session
+  const startSessionResponse = await fetchWithHarmonyAuth(bearerToken, tenant, (auth) => {
+    console.log('[Docebo] Starting Geppetto session at', auth.startUrl);
+
+    return doceboFetch({
+      method: 'POST',
+      url: auth.startUrl,
+      token: auth.geppettoToken,
+      body: {}, // Empty body
+      label: 'Geppetto start session',
+    });
+  });
+
+  if (!startSessionResponse.ok) {
+    throw await geppettoError(startSessionResponse, 'Geppetto start session');
+  }
+
+  const startSessionData = await startSessionResponse.json() as { session: string };
+  const sessionId = startSessionData.session;
+
+  console.log('[Docebo] Geppetto session started:', sessionId);
+
+  if (!sessionId) {
+    throw new Error('Session ID not found in start session response');
+  }
+
+  return { sessionId };
+}
+
+// The answer streams in for longer than a regular API call takes
+const HARMONY_STREAM_TIMEOUT_MS = 120_000;
+
+/**
+ * Send a query on an existing Geppetto session and read the answer stream
+ */
+export async function sendHarmonyMessage(
+  session: HarmonySession,
+  query: string,
+  bearerToken: string,
+  tenant: string,
+  options: HarmonySearchOptions = {}
+): Promise<HarmonySearchResponse> {
+  const { sessionId } = session;
+
+  // Step 4: Send the search query via message stream
   const messageBody = {
-    message: params.query,
+    message: query,
     session: sessionId,
     resources: [],
     enable_general_knowledge: false,
   };
 
-  const messageStreamResponse = await fetch(geppettoMessageStreamUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${geppettoToken}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    },
-    body: JSON.stringify(messageBody),
+  const messageStreamResponse = await fetchWithHarmonyAuth(bearerToken, tenant, (auth) => {
+    console.log('[Docebo] Sending query to message stream:', auth.messageStreamUrl);
+
+    return doceboFetch({
+      method: 'POST',
+      url: auth.messageStreamUrl,
+      token: auth.geppettoToken,
+      body: messageBody,
+      label: 'Geppetto message stream',
+      timeoutMs: HARMONY_STREAM_TIMEOUT_MS,
+    });
   });
 
   if (!messageStreamResponse.ok) {
-    const text = await messageStreamResponse.text();
-    throw new Error(
-      `Geppetto message stream error: ${messageStreamResponse.status} ${messageStreamResponse.statusText} - ${text}`
-    );
+    throw await geppettoError(messageStreamResponse, 'Geppetto message stream');
   }
 
-  // The response is Server-Sent Events (SSE) format, read as text
-  const streamText = await messageStreamResponse.text();
+  if (!messageStreamResponse.body) {
+    throw new Error('Geppetto message stream returned no body');
+  }
 
-  // Parse SSE format to extract data
-  const lines = streamText.split('\n');
-  const events: Array<{ event: string; data: unknown }> = [];
-  let currentEvent: { event?: string; data?: string } = {};
+  // The response is Server-Sent Events (SSE) format, parsed as it arrives
+  const events: HarmonySearchEvent[] = [];
 
-  for (const line of lines) {
-    if (line.startsWith('event:')) {
-      currentEvent.event = line.substring(6).trim();
-    } else if (line.startsWith('data:')) {
-      currentEvent.data = line.substring(5).trim();
-    } else if (line === '' && currentEvent.event) {
-      // Empty line marks end of event
-      try {
-        events.push({
-          event: currentEvent.event,
-          data: currentEvent.data ? JSON.parse(currentEvent.data) : null,
-        });
-      } catch (e) {
-        // If data is not JSON, store as string
-        events.push({
-          event: currentEvent.event,
-          data: currentEvent.data,
-        });
-      }
-      currentEvent = {};
-    }
-  }
+  const streamText = await readSseStream(messageStreamResponse.body, (event) => {
+    events.push(event);
+    options.onEvent?.(event);
+  });
 
   console.log('[Docebo] Harmony Search completed successfully');
   console.log('[Docebo] Parsed', events.length, 'events');
 
-  // Return the search results
+  // Return the answer reduced from the stream; the raw stream only on request
   return {
-    query: params.query,
+    query,
     sessionId,
-    events,
-    rawStream: streamText,
+    ...reduceHarmonyEvents(events),
+    ...(options.includeRaw ? { events, rawStream: streamText } : {}),
+  };
+}
+
+// Geppetto does not document its event payloads, so accept the common field names
+const TEXT_KEYS = ['text', 'content', 'delta', 'message'];
+const CITATION_KEYS = ['citations', 'sources', 'references', 'resources'];
+const FOLLOW_UP_KEYS = ['follow_ups', 'followups', 'suggested_questions', 'suggestions'];
+
+/**
+ * Text chunk carried by a Geppetto stream event, if any
+ */
+export function harmonyEventText(event: HarmonySearchEvent): string | undefined {
+  if (typeof event.data === 'string') {
+    return event.data;
+  }
+
+  const data = asRecord(event.data);
+
+  for (const key of TEXT_KEYS) {
+    if (typeof data?.[key] === 'string') {
+      return data[key] as string;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reduce Geppetto stream events to the answer text, its citations and follow-up suggestions
+ * Text chunks are concatenated unless an event carries the complete `answer`.
+ * Citations are de-duplicated by type and ID, keeping the first occurrence.
+ */
+export function reduceHarmonyEvents(events: HarmonySearchEvent[]): Pick<HarmonySearchResponse, 'answer' | 'citations' | 'followUps'> {
+  let answer = '';
+  const citations = new Map<string, HarmonyCitation>();
+  const followUps = new Set<string>();
+
+  for (const event of events) {
+    const data = asRecord(event.data);
+
+    if (typeof data?.answer === 'string') {
+      answer = data.answer;
+    } else {
+      answer += harmonyEventText(event) ?? '';
+    }
+
+    for (const item of listField(data, CITATION_KEYS)) {
+      const citation = toCitation(item);
+      const key = citation && `${citation.type}:${citation.id}`;
+      if (citation && key && !citations.has(key)) {
+        citations.set(key, citation);
+      }
+    }
+
+    for (const item of listField(data, FOLLOW_UP_KEYS)) {
+      const question = typeof item === 'string' ? item : asRecord(item)?.text ?? asRecord(item)?.question;
+      if (typeof question === 'string' && question.trim()) {
+        followUps.add(question.trim());
+      }
+    }
+  }
+
+  return {
+    answer: answer.trim(),
+    citations: Array.from(citations.values()),
+    followUps: Array.from(followUps),
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+function listField(data: Record<string, unknown> | undefined, keys: string[]): unknown[] {
+  return keys.flatMap((key) => (Array.isArray(data?.[key]) ? data[key] as unknown[] : []));
+}
+
+function toCitation(item: unknown): HarmonyCitation | undefined {
+  const source = asRecord(item);
+  const id = source?.id ?? source?.resource_id ?? source?.course_id;
+
+  if (typeof id !== 'number' && typeof id !== 'string') {
+    return undefined;
+  }
+
+  const title = source?.title ?? source?.name;
+  const type = source?.type ?? source?.resource_type ?? (source?.course_id !== undefined ? 'course' : 'asset');
+  const url = source?.url ?? source?.link;
+
+  return {
+    type: String(type),
+    id,
+    title: typeof title === 'string' ? title : String(id),
+    ...(typeof url === 'string' ? { url } : {}),
+  };
+}
+
+export interface DoceboCourse {
+  id: number;
+  name: string;
+  code?: string;
+  description?: string;
+  type?: string; // elearning, classroom, webinar
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListCoursesParams {
+  page?: number;
+  page_size?: number;
+  search_text?: string;
+  type?: 'elearning' | 'classroom' | 'webinar';
+  category_id?: number;
+  language?: string; // Language code, e.g. "en"
+  status?: 'published' | 'under_maintenance';
+  sort_attr?: string;
+  sort_dir?: 'asc' | 'desc';
+}
+
+export interface ListCoursesResponse {
+  data: {
+    items: DoceboCourse[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+// A classroom or webinar session of a course
+export interface DoceboCourseSession {
+  id: number;
+  name: string;
+  code?: string;
+  date_start?: string;
+  date_end?: string;
+  max_enroll?: number;
+  enrolled?: number;
+  waiting?: number;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface CourseEnrollmentPolicy {
+  self_enrollment: 'free' | 'moderated' | 'admin_only' | 'unknown';
+  enrollment_start?: string;
+  enrollment_end?: string;
+  max_enrollments?: number;
+}
+
+export interface DoceboCourseDetails extends DoceboCourse {
+  enrollment_policy: CourseEnrollmentPolicy;
+  sessions: DoceboCourseSession[]; // Empty for e-learning courses
+}
+
+export interface GetUserResponse {
+  data: {
+    user_data: DoceboUser;
+    additional_fields?: Array<{ id: number; title: string; value: unknown; [key: string]: unknown }>;
+    [key: string]: unknown;
+  };
+}
+
+// Additional (custom) field values keyed by field ID
+export type AdditionalFieldValues = Record<string, string | number>;
+
+export interface CreateUserParams {
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  password?: string; // Random, to be changed at first login, when omitted
+  language?: string; // e.g. "english"
+  timezone?: string; // e.g. "Europe/Rome"
+  branch_id?: number;
+  expiration_date?: string; // yyyy-mm-dd format
+  additional_fields?: AdditionalFieldValues;
+  send_notification?: boolean; // Email the user their credentials
+}
+
+export interface CreateUserResponse {
+  user_id: number;
+  username: string;
+}
+
+export interface UpdateUserParams extends Partial<Omit<CreateUserParams, 'username' | 'branch_id' | 'send_notification'>> {
+  user_id: number;
+}
+
+export interface UpdateUserResponse {
+  success: true;
+  user_id: number;
+  updated: string[]; // Fields that were changed
+}
+
+export interface SetUserStatusParams {
+  user_id: number;
+  status: 'active' | 'inactive';
+}
+
+export interface SetUserStatusResponse {
+  success: true;
+  user_id: number;
+  status: 'active' | 'inactive';
+}
+
+export interface DoceboLearningPlan {
+  id: number;
+  name: string;
+  code?: string;
+  description?: string;
+  is_published?: boolean;
+  courses_count?: number;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListLearningPlansParams {
+  page?: number;
+  page_size?: number;
+  search_text?: string;
+  sort_attr?: string;
+  sort_dir?: 'asc' | 'desc';
+}
+
+export interface ListLearningPlansResponse {
+  data: {
+    items: DoceboLearningPlan[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+// A course as it appears in a learning plan
+export interface LearningPlanCourse {
+  id: number;
+  name: string;
+  code?: string;
+  type?: string;
+  position?: number;
+  is_required?: boolean;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface DoceboLearningPlanDetails extends DoceboLearningPlan {
+  courses: LearningPlanCourse[];
+}
+
+// Same validity fields as a course enrollment
+export interface EnrollLearningPlanParams extends Pick<EnrollUserParams, 'date_begin_validity' | 'date_expire_validity'> {
+  learning_plan_id: number;
+  user_ids: number[];
+}
+
+export interface EnrollLearningPlanResponse {
+  success: true;
+  learning_plan_id: number;
+  user_ids: number[];
+}
+
+export interface LearningPlanProgress {
+  learning_plan_id: number;
+  user_id: number;
+  total_courses: number;
+  completed_courses: number;
+  percent_complete: number;
+  courses: Array<{
+    course_id: number;
+    name: string;
+    status: string; // Enrollment status, or not_enrolled
+    completion_date?: string;
+  }>;
+}
+
+/**
+ * GET a Docebo API path and parse the JSON body
+ */
+async function getJson<T>(path: string, bearerToken: string, tenant: string, label: string): Promise<T> {
+  const url = doceboUrl(tenant, path);
+
+  console.log(`[Docebo] Fetching ${label} from`, url);
+
+  const response = await doceboRequest({ method: 'GET', url, token: bearerToken, label: `Docebo ${label} API` });
+
+  return await response.json() as T;
+}
+
+/**
+ * Send a JSON body to a Docebo API path (POST, PUT, DELETE) and parse the JSON reply
+ * An empty reply body resolves to an empty object.
+ */
+async function sendJson<T>(
+  method: 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body: unknown,
+  bearerToken: string,
+  tenant: string,
+  label: string
+): Promise<T> {
+  const url = doceboUrl(tenant, path);
+
+  console.log(`[Docebo] ${method} ${label} at`, url);
+
+  const response = await doceboRequest({ method, url, token: bearerToken, body, label: `Docebo ${label} API` });
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : {}) as T;
+}
+
+/**
+ * List courses from Docebo
+ */
+export async function listCourses(params: ListCoursesParams = {}, bearerToken: string, tenant: string): Promise<ListCoursesResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+  if (params.search_text) queryParams.set('search_text', params.search_text);
+  if (params.type) queryParams.set('type[]', params.type);
+  if (params.category_id) queryParams.set('category[]', params.category_id.toString());
+  if (params.language) queryParams.set('lang_code', params.language);
+  if (params.status) queryParams.set('status', params.status);
+  if (params.sort_attr) queryParams.set('sort_attr', params.sort_attr);
+  if (params.sort_dir) queryParams.set('sort_dir', params.sort_dir);
+
+  const data = await getJson<ListCoursesResponse>(`/learn/v1/courses?${queryParams.toString()}`, bearerToken, tenant, 'courses');
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'courses');
+
+  return data;
+}
+
+/**
+ * Get a single course by ID
+ */
+export async function getCourse(courseId: number, bearerToken: string, tenant: string): Promise<DoceboCourse> {
+  const data = await getJson<{ data: DoceboCourse }>(`/learn/v1/courses/${courseId}`, bearerToken, tenant, 'course');
+  return data.data;
+}
+
+/**
+ * Get a course with its sessions and enrollment policy
+ * Sessions are only fetched for classroom and webinar courses.
+ */
+export async function getCourseDetails(courseId: number, bearerToken: string, tenant: string): Promise<DoceboCourseDetails> {
+  const course = await getCourse(courseId, bearerToken, tenant);
+
+  const sessions = course.type === 'classroom' || course.type === 'webinar'
+    ? await listCourseSessions(courseId, bearerToken, tenant)
+    : [];
+
+  return {
+    ...course,
+    enrollment_policy: toEnrollmentPolicy(course),
+    sessions,
+  };
+}
+
+/**
+ * List the sessions of a classroom or webinar course, across all pages
+ */
+export function listCourseSessions(courseId: number, bearerToken: string, tenant: string): Promise<DoceboCourseSession[]> {
+  return collectPages((page) => getJson<ListPage<DoceboCourseSession>>(
+    `/course/v1/courses/${courseId}/sessions?page=${page}&page_size=200`,
+    bearerToken,
+    tenant,
+    'course sessions'
+  ));
+}
+
+export interface DoceboSessionEvent {
+  id: number;
+  name?: string;
+  date_begin?: string;
+  date_end?: string;
+  timezone?: string;
+  location?: string;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface SessionSeats {
+  max: number | null; // null when the session has no seat limit
+  enrolled: number;
+  available: number | null;
+  waiting: number;
+}
+
+export interface ClassroomSession extends DoceboCourseSession {
+  seats: SessionSeats;
+  events?: DoceboSessionEvent[];
+}
+
+export interface ListSessionEnrollmentsParams {
+  course_id: number;
+  session_id: number;
+  waiting_only?: boolean;
+  page?: number;
+  page_size?: number;
+}
+
+export interface EnrollSessionParams extends Pick<EnrollUserParams, 'user_id' | 'course_id' | 'level'> {
+  session_id: number;
+}
+
+export interface EnrollSessionResponse {
+  success: true;
+  user_id: number;
+  course_id: number;
+  session_id: number;
+  status: 'enrolled' | 'waiting';
+}
+
+export interface MarkAttendanceParams {
+  course_id: number;
+  session_id: number;
+  event_id: number;
+  user_ids: number[];
+  attended: boolean;
+}
+
+export interface MarkAttendanceResponse {
+  success: true;
+  event_id: number;
+  user_ids: number[];
+  attended: boolean;
+}
+
+/**
+ * List the sessions of a classroom or webinar course with their seat counts,
+ * and optionally the events (dates) of each session
+ */
+export async function listClassroomSessions(
+  courseId: number,
+  options: { include_events?: boolean },
+  bearerToken: string,
+  tenant: string
+): Promise<ClassroomSession[]> {
+  const sessions = await listCourseSessions(courseId, bearerToken, tenant);
+
+  console.log('[Docebo] Retrieved', sessions.length, 'sessions for course', courseId);
+
+  return Promise.all(sessions.map(async (session) => ({
+    ...session,
+    seats: toSessionSeats(session),
+    ...(options.include_events ? { events: await listSessionEvents(courseId, session.id, bearerToken, tenant) } : {}),
+  })));
+}
+
+/**
+ * List the events (dates) of a classroom session
+ */
+export async function listSessionEvents(
+  courseId: number,
+  sessionId: number,
+  bearerToken: string,
+  tenant: string
+): Promise<DoceboSessionEvent[]> {
+  const data = await getJson<{ data: { items: DoceboSessionEvent[] } }>(
+    `/course/v1/courses/${courseId}/sessions/${sessionId}/events`,
+    bearerToken,
+    tenant,
+    'session events'
+  );
+  return data.data.items;
+}
+
+/**
+ * List the enrollments of a classroom session, or only its waiting list
+ */
+export async function listSessionEnrollments(
+  params: ListSessionEnrollmentsParams,
+  bearerToken: string,
+  tenant: string
+): Promise<ListEnrollmentsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.waiting_only) queryParams.set('status[]', 'waiting');
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  return getJson<ListEnrollmentsResponse>(
+    `/course/v1/courses/${params.course_id}/sessions/${params.session_id}/enrollments?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'session enrollments'
+  );
+}
+
+/**
+ * Enroll a user into a specific classroom session
+ * Docebo puts the user on the waiting list when the session is full.
+ */
+export async function enrollSessionUser(
+  params: EnrollSessionParams,
+  bearerToken: string,
+  tenant: string
+): Promise<EnrollSessionResponse> {
+  console.log('[Docebo] Enrolling user', params.user_id, 'in session', params.session_id, 'of course', params.course_id);
+
+  const data = await sendJson<{ data?: { waiting?: boolean | number; status?: string } }>(
+    'POST',
+    `/course/v1/courses/${params.course_id}/sessions/${params.session_id}/enrollments`,
+    {
+      user_ids: [params.user_id],
+      level: params.level || 3, // Default to student
+    },
+    bearerToken,
+    tenant,
+    'session enrollment'
+  );
+
+  const waiting = Boolean(data.data?.waiting) || data.data?.status === 'waiting';
+
+  return {
+    success: true,
+    user_id: params.user_id,
+    course_id: params.course_id,
+    session_id: params.session_id,
+    status: waiting ? 'waiting' : 'enrolled',
+  };
+}
+
+/**
+ * Mark users as present or absent at a session event
+ */
+export async function markAttendance(
+  params: MarkAttendanceParams,
+  bearerToken: string,
+  tenant: string
+): Promise<MarkAttendanceResponse> {
+  console.log('[Docebo] Marking', params.user_ids.length, 'users', params.attended ? 'present' : 'absent', 'at event', params.event_id);
+
+  await sendJson(
+    'PUT',
+    `/course/v1/courses/${params.course_id}/sessions/${params.session_id}/events/${params.event_id}/attendance`,
+    { attendance: params.user_ids.map((user_id) => ({ user_id, attended: params.attended ? 1 : 0 })) },
+    bearerToken,
+    tenant,
+    'attendance'
+  );
+
+  return { success: true, event_id: params.event_id, user_ids: params.user_ids, attended: params.attended };
+}
+
+function toSessionSeats(session: DoceboCourseSession): SessionSeats {
+  const max = session.max_enroll ? Number(session.max_enroll) : null; // 0 means unlimited
+  const enrolled = Number(session.enrolled ?? 0);
+  return {
+    max,
+    enrolled,
+    available: max === null ? null : Math.max(max - enrolled, 0),
+    waiting: Number(session.waiting ?? 0),
+  };
+}
+
+// Docebo subscribe_method values
+const SELF_ENROLLMENT: Record<number, CourseEnrollmentPolicy['self_enrollment']> = {
+  0: 'admin_only',
+  1: 'moderated',
+  2: 'free',
+};
+
+function toEnrollmentPolicy(course: DoceboCourse): CourseEnrollmentPolicy {
+  const policy: CourseEnrollmentPolicy = {
+    self_enrollment: SELF_ENROLLMENT[Number(course.subscribe_method)] ?? 'unknown',
   };
+
+  if (typeof course.sub_start_date === 'string' && course.sub_start_date) policy.enrollment_start = course.sub_start_date;
+  if (typeof course.sub_end_date === 'string' && course.sub_end_date) policy.enrollment_end = course.sub_end_date;
+  if (typeof course.max_num_subscribe === 'number' && course.max_num_subscribe > 0) policy.max_enrollments = course.max_num_subscribe;
+
+  return policy;
+}
+
+/**
+ * Get a single user by ID, including additional fields
+ */
+export async function getUser(userId: number, bearerToken: string, tenant: string): Promise<GetUserResponse['data']> {
+  const data = await getJson<GetUserResponse>(`/manage/v1/user/${userId}`, bearerToken, tenant, 'user');
+  return data.data;
+}
+
+/**
+ * Create a user
+ * Without a password, a random one is set and must be changed at first login.
+ */
+export async function createUser(params: CreateUserParams, bearerToken: string, tenant: string): Promise<CreateUserResponse> {
+  console.log('[Docebo] Creating user', params.username);
+
+  const data = await sendJson<{ data: { user_id: number | string } }>(
+    'POST',
+    '/manage/v1/user',
+    {
+      ...toUserBody(params),
+      userid: params.username,
+      password: params.password ?? crypto.randomBytes(18).toString('base64url'),
+      force_change: params.password ? 0 : 1,
+      send_notification_email: params.send_notification ?? false,
+      ...(params.branch_id !== undefined ? { select_orgchart: { [params.branch_id]: 1 } } : {}),
+    },
+    bearerToken,
+    tenant,
+    'user creation'
+  );
+
+  const userId = Number(data.data.user_id);
+
+  console.log('[Docebo] Created user', params.username, 'with ID', userId);
+
+  return { user_id: userId, username: params.username };
+}
+
+/**
+ * Update a user's profile and additional fields; only the fields given are changed
+ */
+export async function updateUser(params: UpdateUserParams, bearerToken: string, tenant: string): Promise<UpdateUserResponse> {
+  const { user_id, ...changes } = params;
+  const body = toUserBody(changes);
+  const updated = Object.entries(USER_BODY_FIELDS)
+    .filter(([, field]) => field in body)
+    .map(([param]) => param);
+
+  console.log('[Docebo] Updating user', user_id, ':', updated.join(', '));
+
+  await sendJson('PUT', `/manage/v1/user/${user_id}`, body, bearerToken, tenant, 'user update');
+
+  return { success: true, user_id, updated };
+}
+
+/**
+ * Activate or deactivate a user
+ */
+export async function setUserStatus(params: SetUserStatusParams, bearerToken: string, tenant: string): Promise<SetUserStatusResponse> {
+  console.log('[Docebo] Setting user', params.user_id, 'status to', params.status);
+
+  await sendJson(
+    'PUT',
+    '/manage/v1/user/change_status',
+    { user_ids: [params.user_id], status: params.status === 'active' ? 1 : 0 },
+    bearerToken,
+    tenant,
+    'user status'
+  );
+
+  return { success: true, user_id: params.user_id, status: params.status };
+}
+
+// Docebo user API field of each profile field
+const USER_BODY_FIELDS: Partial<Record<keyof CreateUserParams, string>> = {
+  email: 'email',
+  first_name: 'firstname',
+  last_name: 'lastname',
+  password: 'password',
+  language: 'language',
+  timezone: 'timezone',
+  expiration_date: 'expiration',
+  additional_fields: 'additional_fields',
+};
+
+/**
+ * Map profile fields to the Docebo user API body, leaving out fields not given
+ */
+function toUserBody(params: Partial<CreateUserParams>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(USER_BODY_FIELDS)
+      .filter(([param]) => params[param as keyof CreateUserParams] !== undefined)
+      .map(([param, field]) => [field, params[param as keyof CreateUserParams]])
+  );
+}
+
+/**
+ * Get a single learning plan by ID
+ */
+export async function getLearningPlan(learningPlanId: number, bearerToken: string, tenant: string): Promise<DoceboLearningPlan> {
+  const data = await getJson<{ data: DoceboLearningPlan }>(
+    `/learningplan/v1/learningplans/${learningPlanId}`,
+    bearerToken,
+    tenant,
+    'learning plan'
+  );
+  return data.data;
+}
+
+/**
+ * List learning plans
+ */
+export async function listLearningPlans(
+  params: ListLearningPlansParams = {},
+  bearerToken: string,
+  tenant: string
+): Promise<ListLearningPlansResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+  if (params.search_text) queryParams.set('search_text', params.search_text);
+  if (params.sort_attr) queryParams.set('sort_attr', params.sort_attr);
+  if (params.sort_dir) queryParams.set('sort_dir', params.sort_dir);
+
+  const data = await getJson<ListLearningPlansResponse>(
+    `/learningplan/v1/learningplans?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'learning plans'
+  );
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'learning plans');
+
+  return data;
+}
+
+/**
+ * Get a learning plan with the courses it contains
+ */
+export async function getLearningPlanDetails(
+  learningPlanId: number,
+  bearerToken: string,
+  tenant: string
+): Promise<DoceboLearningPlanDetails> {
+  const [plan, courses] = await Promise.all([
+    getLearningPlan(learningPlanId, bearerToken, tenant),
+    listLearningPlanCourses(learningPlanId, bearerToken, tenant),
+  ]);
+
+  return { ...plan, courses };
+}
+
+/**
+ * List the courses of a learning plan, in plan order, across all pages
+ */
+export function listLearningPlanCourses(
+  learningPlanId: number,
+  bearerToken: string,
+  tenant: string
+): Promise<LearningPlanCourse[]> {
+  return collectPages((page) => getJson<ListPage<LearningPlanCourse>>(
+    `/learningplan/v1/learningplans/${learningPlanId}/courses?page=${page}&page_size=200`,
+    bearerToken,
+    tenant,
+    'learning plan courses'
+  ));
+}
+
+/**
+ * Enroll users into a learning plan (and so into its courses)
+ */
+export async function enrollLearningPlan(
+  params: EnrollLearningPlanParams,
+  bearerToken: string,
+  tenant: string
+): Promise<EnrollLearningPlanResponse> {
+  console.log('[Docebo] Enrolling', params.user_ids.length, 'users in learning plan', params.learning_plan_id);
+
+  await sendJson(
+    'POST',
+    `/learningplan/v1/learningplans/${params.learning_plan_id}/enrollments`,
+    {
+      user_ids: params.user_ids,
+      date_begin_validity: params.date_begin_validity,
+      date_expire_validity: params.date_expire_validity,
+    },
+    bearerToken,
+    tenant,
+    'learning plan enrollment'
+  );
+
+  return { success: true, learning_plan_id: params.learning_plan_id, user_ids: params.user_ids };
+}
+
+/**
+ * A user's progress in a learning plan, from their enrollments in the plan's courses
+ */
+export async function getLearningPlanProgress(
+  learningPlanId: number,
+  userId: number,
+  bearerToken: string,
+  tenant: string
+): Promise<LearningPlanProgress> {
+  const courses = await listLearningPlanCourses(learningPlanId, bearerToken, tenant);
+  const enrollments = new Map<number, DoceboEnrollment>();
+
+  for (const enrollment of await collectUserEnrollments(userId, bearerToken, tenant)) {
+    enrollments.set(enrollment.id_course, enrollment);
+  }
+
+  const progress = courses.map((course) => {
+    const enrollment = enrollments.get(course.id);
+    return {
+      course_id: course.id,
+      name: course.name,
+      status: enrollment?.status ?? 'not_enrolled',
+      ...(enrollment?.completion_date ? { completion_date: enrollment.completion_date } : {}),
+    };
+  });
+
+  const completed = progress.filter((course) => course.status === 'completed').length;
+
+  return {
+    learning_plan_id: learningPlanId,
+    user_id: userId,
+    total_courses: courses.length,
+    completed_courses: completed,
+    percent_complete: courses.length > 0 ? Math.round((completed / courses.length) * 100) : 0,
+    courses: progress,
+  };
+}
+
+export interface UserCertificate {
+  id_course: number;
+  title?: string;
+  issued_on?: string;
+  expire_on?: string;
+  download_url?: string;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface GetUserProgressParams {
+  user_id: number;
+  status?: EnrollmentStatus;
+  completed_from?: string; // yyyy-mm-dd; only enrollments completed on or after this date
+  completed_to?: string; // yyyy-mm-dd; only enrollments completed on or before this date
+}
+
+export interface UserCourseProgress {
+  course_id: number;
+  course_name?: string;
+  status?: string;
+  score: number | null;
+  time_spent_seconds: number;
+  enrollment_date?: string;
+  completion_date?: string;
+  certificate?: UserCertificate;
+}
+
+export interface UserProgressReport {
+  user_id: number;
+  summary: {
+    total: number;
+    completed: number;
+    in_progress: number;
+    not_started: number;
+    time_spent_seconds: number;
+    average_score: number | null;
+  };
+  enrollments: UserCourseProgress[];
+}
+
+/**
+ * Learner transcript: every enrollment of a user with score, time spent,
+ * completion date and certificate, plus summary totals
+ */
+export async function getUserProgress(params: GetUserProgressParams, bearerToken: string, tenant: string): Promise<UserProgressReport> {
+  const [enrollments, certificates] = await Promise.all([
+    collectUserEnrollments(params.user_id, bearerToken, tenant, params.status),
+    listUserCertificates(params.user_id, bearerToken, tenant),
+  ]);
+
+  const certificatesByCourse = new Map(certificates.map((certificate) => [certificate.id_course, certificate]));
+  const filterByCompletion = params.completed_from !== undefined || params.completed_to !== undefined;
+
+  const progress: UserCourseProgress[] = enrollments
+    .filter((enrollment) => !filterByCompletion || isCompletedWithin(enrollment.completion_date, params.completed_from, params.completed_to))
+    .map((enrollment) => {
+      const certificate = certificatesByCourse.get(enrollment.id_course);
+      return {
+        course_id: enrollment.id_course,
+        course_name: enrollment.course_name,
+        status: enrollment.status,
+        score: typeof enrollment.score === 'number' ? enrollment.score : null,
+        time_spent_seconds: enrollment.total_time ?? 0,
+        enrollment_date: enrollment.enrollment_date,
+        completion_date: enrollment.completion_date,
+        ...(certificate ? { certificate } : {}),
+      };
+    });
+
+  const scores = progress.flatMap((course) => (course.score === null ? [] : [course.score]));
+
+  console.log('[Docebo] Built progress report for user', params.user_id, 'with', progress.length, 'enrollments');
+
+  return {
+    user_id: params.user_id,
+    summary: {
+      total: progress.length,
+      completed: progress.filter((course) => course.status === 'completed').length,
+      in_progress: progress.filter((course) => course.status === 'in_progress').length,
+      not_started: progress.filter((course) => course.status === 'subscribed').length,
+      time_spent_seconds: progress.reduce((total, course) => total + course.time_spent_seconds, 0),
+      average_score: scores.length > 0 ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100) / 100 : null,
+    },
+    enrollments: progress,
+  };
+}
+
+/**
+ * List the course certificates issued to a user, across all pages
+ */
+function listUserCertificates(userId: number, bearerToken: string, tenant: string): Promise<UserCertificate[]> {
+  return collectPages((page) => getJson<ListPage<UserCertificate>>(
+    `/learn/v1/users/${userId}/certificates?page=${page}&page_size=200`,
+    bearerToken,
+    tenant,
+    'certificates'
+  ));
+}
+
+/**
+ * Page through all enrollments of a user
+ */
+function collectUserEnrollments(
+  userId: number,
+  bearerToken: string,
+  tenant: string,
+  status?: EnrollmentStatus
+): Promise<DoceboEnrollment[]> {
+  return collectPages((page) => listEnrollments({ user_id: userId, status, page, page_size: 200 }, bearerToken, tenant));
+}
+
+/**
+ * Whether a completion date (yyyy-mm-dd, optionally with a time) falls within an inclusive date range
+ */
+function isCompletedWithin(completionDate: string | undefined, from?: string, to?: string): boolean {
+  if (!completionDate) return false;
+  const day = completionDate.slice(0, 10);
+  return (from === undefined || day >= from) && (to === undefined || day <= to);
+}
+
+export interface DoceboCertification {
+  id: number;
+  title: string;
+  code?: string;
+  description?: string;
+  duration?: number; // Validity, in duration_unit; 0 when it never expires
+  duration_unit?: string;
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListCertificationsParams {
+  search_text?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ListCertificationsResponse {
+  data: {
+    items: DoceboCertification[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+export interface CertificationHolder {
+  user_id: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+  issued_on?: string;
+  expire_on?: string | null; // null when the certification never expires
+  [key: string]: unknown; // Allow other fields
+}
+
+export interface ListCertificationHoldersParams {
+  certification_id: number;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ListCertificationHoldersResponse {
+  data: {
+    items: CertificationHolder[];
+    total_count: number;
+    current_page: number;
+    page_size: number;
+    has_more_page: boolean;
+  };
+}
+
+export interface ListExpiringCertificationsParams {
+  days: number;
+  certification_id?: number; // Default: all certifications
+  from?: ExpiringScanPosition; // Where a previous call stopped (its next)
+}
+
+// Progress of a holder scan, by certification ID so that certifications added or
+// deleted between calls don't shift it. Certifications are started in ID order.
+export interface ExpiringScanPosition {
+  active: Array<[number, number]>; // [certification ID, next page] of certifications being scanned
+  started: number; // ID of the last certification started (0 before the first)
+}
+
+export interface ExpiringCertification extends CertificationHolder {
+  certification_id: number;
+  certification_title?: string;
+  days_remaining: number;
+}
+
+export interface ListExpiringCertificationsResponse {
+  expiring_before: string; // yyyy-mm-dd
+  data: {
+    items: ExpiringCertification[];
+    count: number;
+    has_more_page: boolean;
+  };
+  next?: ExpiringScanPosition; // Present when the scan stopped before the last holder
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Holder pages fetched at once, and at most per call (200 holders each)
+const EXPIRING_SCAN_CONCURRENCY = 4;
+const MAX_EXPIRING_SCAN_PAGES = 25;
+
+/**
+ * List certifications
+ */
+export async function listCertifications(
+  params: ListCertificationsParams = {},
+  bearerToken: string,
+  tenant: string
+): Promise<ListCertificationsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.search_text) queryParams.set('search_text', params.search_text);
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  const data = await getJson<ListCertificationsResponse>(
+    `/learn/v1/certifications?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'certifications'
+  );
+
+  console.log('[Docebo] Retrieved', data.data.items.length, 'certifications');
+
+  return data;
+}
+
+/**
+ * List the users holding a certification, with issue and expiry dates
+ */
+export async function listCertificationHolders(
+  params: ListCertificationHoldersParams,
+  bearerToken: string,
+  tenant: string
+): Promise<ListCertificationHoldersResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.set('page', params.page.toString());
+  if (params.page_size) queryParams.set('page_size', params.page_size.toString());
+
+  return getJson<ListCertificationHoldersResponse>(
+    `/learn/v1/certifications/${params.certification_id}/users?${queryParams.toString()}`,
+    bearerToken,
+    tenant,
+    'certification holders'
+  );
+}
+
+/**
+ * List certifications expiring within the next N days
+ * Docebo has no expiry filter on certification holders, so the holders of one or
+ * all certifications are scanned, a few pages at once. A call scans a bounded
+ * number of pages and returns where it stopped in next; matches are sorted
+ * soonest first within each call.
+ */
+export async function listExpiringCertifications(
+  params: ListExpiringCertificationsParams,
+  bearerToken: string,
+  tenant: string,
+  now = Date.now()
+): Promise<ListExpiringCertificationsResponse> {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const expiringBefore = new Date(now + params.days * DAY_MS).toISOString().slice(0, 10);
+
+  const certifications: Array<{ id: number; title?: string }> = params.certification_id !== undefined
+    ? [{ id: params.certification_id }]
+    : (await collectCertifications(bearerToken, tenant)).sort((a, b) => a.id - b.id);
+  const byId = new Map(certifications.map((certification) => [certification.id, certification]));
+
+  const expiring: ExpiringCertification[] = [];
+  let { active, started } = params.from ?? { active: [], started: 0 };
+  // Certifications deleted since the previous call are dropped from the scan
+  active = active.filter(([id]) => byId.has(id));
+  const queue = certifications.filter((certification) => certification.id > started);
+  let scannedPages = 0;
+
+  while (scannedPages < MAX_EXPIRING_SCAN_PAGES) {
+    while (active.length < EXPIRING_SCAN_CONCURRENCY && queue.length > 0) {
+      started = queue.shift()!.id;
+      active.push([started, 1]);
+    }
+    if (active.length === 0) break;
+
+    const pages = await Promise.all(active.map(([id, page]) => listCertificationHolders(
+      { certification_id: id, page, page_size: 200 },
+      bearerToken,
+      tenant
+    )));
+    scannedPages += active.length;
+
+    active.forEach(([id], i) => {
+      const certification = byId.get(id)!;
+
+      for (const holder of pages[i].data.items) {
+        const expiry = holder.expire_on?.slice(0, 10);
+        if (!expiry || expiry < today || expiry > expiringBefore) continue;
+
+        expiring.push({
+          ...holder,
+          certification_id: certification.id,
+          ...(certification.title ? { certification_title: certification.title } : {}),
+          days_remaining: Math.round((Date.parse(expiry) - Date.parse(today)) / DAY_MS),
+        });
+      }
+    });
+
+    active = active
+      .filter((_, i) => pages[i].data.has_more_page)
+      .map(([id, page]): [number, number] => [id, page + 1]);
+  }
+
+  expiring.sort((a, b) => a.days_remaining - b.days_remaining);
+
+  const done = active.length === 0 && queue.length === 0;
+
+  console.log('[Docebo] Found', expiring.length, 'certifications expiring by', expiringBefore, done ? '' : '(scan continues)');
+
+  return {
+    expiring_before: expiringBefore,
+    data: {
+      items: expiring,
+      count: expiring.length,
+      has_more_page: !done,
+    },
+    ...(done ? {} : { next: { active, started } }),
+  };
+}
+
+/**
+ * Page through all certifications
+ */
+function collectCertifications(bearerToken: string, tenant: string): Promise<DoceboCertification[]> {
+  return collectPages((page) => listCertifications({ page, page_size: 200 }, bearerToken, tenant));
+}
+
+/**
+ * Incrementally parse a Server-Sent Events body
+ * Calls onEvent for each complete event as soon as it arrives; event data is
+ * parsed as JSON when possible, otherwise kept as a string.
+ * Returns the full raw stream text.
+ */
+async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: HarmonySearchEvent) => void
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let rawText = '';
+  let buffer = '';
+  let currentEvent: { event?: string; data?: string } = {};
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    rawText += chunk;
+    buffer += chunk;
+
+    // Process every complete line; keep a trailing partial line buffered
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, '');
+
+      if (line.startsWith('event:')) {
+        currentEvent.event = line.substring(6).trim();
+      } else if (line.startsWith('data:')) {
+        const data = line.substring(5).trim();
+        currentEvent.data = currentEvent.data === undefined ? data : `${currentEvent.data}\n${data}`;
+      } else if (line === '' && currentEvent.event) {
+        // Empty line marks end of event
+        let data: unknown;
+        try {
+          data = currentEvent.data ? JSON.parse(currentEvent.data) : null;
+        } catch (e) {
+          // If data is not JSON, store as string
+          data = currentEvent.data;
+        }
+
+        onEvent({ event: currentEvent.event, data });
+        currentEvent = {};
+      }
+    }
+
+    if (done) {
+      return rawText;
+    }
+  }
 }
@@ -0,0 +1,56 @@
+/**
+ * Tests for the Harmony Search auth cache
+ * Verifies keying by tenant and token, expiry and invalidation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getCachedHarmonyAuth,
+  cacheHarmonyAuth,
+  invalidateHarmonyAuth,
+  resolveTokenExpiry,
+  clearHarmonyAuthCache,
+} from './harmony-auth-cache.js';
+
+const auth = {
+  startUrl: 'https://geppetto.example.com/start',
+  messageStreamUrl: 'https://geppetto.example.com/stream',
+  geppettoToken: 'geppetto-token',
+  expiresAt: 10 * 60_000,
+};
+
+describe('harmony auth cache', () => {
+  beforeEach(() => {
+    clearHarmonyAuthCache();
+  });
+
+  it('caches auth per tenant and bearer token', () => {
+    cacheHarmonyAuth('token-a', 'acme', auth, 0);
+
+    expect(getCachedHarmonyAuth('token-a', 'acme', 0)).toBe(auth);
+    expect(getCachedHarmonyAuth('token-b', 'acme', 0)).toBeUndefined();
+    expect(getCachedHarmonyAuth('token-a', 'other', 0)).toBeUndefined();
+  });
+
+  it('drops auth shortly before the token expires', () => {
+    cacheHarmonyAuth('token-a', 'acme', auth, 0);
+
+    expect(getCachedHarmonyAuth('token-a', 'acme', auth.expiresAt - 60_000)).toBe(auth);
+    expect(getCachedHarmonyAuth('token-a', 'acme', auth.expiresAt - 10_000)).toBeUndefined();
+  });
+
+  it('invalidates auth for a caller', () => {
+    cacheHarmonyAuth('token-a', 'acme', auth, 0);
+    invalidateHarmonyAuth('token-a', 'acme');
+
+    expect(getCachedHarmonyAuth('token-a', 'acme', 0)).toBeUndefined();
+  });
+
+  it('reads the expiry from a JWT exp claim, then expires_in, then a default', () => {
+    const payload = Buffer.from(JSON.stringify({ exp: 2_000 })).toString('base64url');
+
+    expect(resolveTokenExpiry(`header.${payload}.signature`, undefined, 0)).toBe(2_000_000);
+    expect(resolveTokenExpiry('opaque-token', 300, 1_000)).toBe(301_000);
+    expect(resolveTokenExpiry('opaque-token', undefined, 0)).toBe(10 * 60_000);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Harmony Search auth cache
+ * Keeps the Geppetto URLs (from /manage/v1/site/bootstrap) and the Geppetto token
+ * (from /manage/v1/globalsearch/ai/auth) per tenant and caller until the token expires,
+ * so repeated searches skip two round trips. Entries are keyed by a hash of the
+ * bearer token, never the token itself.
+ * Storage is in-memory: the cache does not survive a restart or span instances.
+ */
+
+import * as crypto from 'crypto';
+
+export interface HarmonyAuth {
+  startUrl: string;
+  messageStreamUrl: string;
+  geppettoToken: string;
+  expiresAt: number; // Epoch ms
+}
+
+// Used when the Geppetto token carries no expiry we can read
+const DEFAULT_TOKEN_TTL_MS = 10 * 60_000;
+
+// Refresh this long before the token actually expires
+const EXPIRY_MARGIN_MS = 30_000;
+
+const cache = new Map<string, HarmonyAuth>();
+
+/**
+ * Stable identity for a bearer token that does not reveal it
+ */
+export function tokenIdentity(bearerToken: string): string {
+  return crypto.createHash('sha256').update(bearerToken).digest('hex');
+}
+
+function cacheKey(bearerToken: string, tenant: string): string {
+  return `${tenant}:${tokenIdentity(bearerToken)}`;
+}
+
+/**
+ * Expiry of a Geppetto token: the JWT `exp` claim, else expires_in seconds, else the default TTL
+ */
+export function resolveTokenExpiry(geppettoToken: string, expiresIn?: number, now: number = Date.now()): number {
+  const [, payload] = geppettoToken.split('.');
+
+  if (payload) {
+    try {
+      const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { exp?: unknown };
+      if (typeof exp === 'number') {
+        return exp * 1000;
+      }
+    } catch {
+      // Not a JWT
+    }
+  }
+
+  return now + (typeof expiresIn === 'number' && expiresIn > 0 ? expiresIn * 1000 : DEFAULT_TOKEN_TTL_MS);
+}
+
+/**
+ * Cached auth for the caller, unless missing or about to expire
+ */
+export function getCachedHarmonyAuth(bearerToken: string, tenant: string, now: number = Date.now()): HarmonyAuth | undefined {
+  const key = cacheKey(bearerToken, tenant);
+  const auth = cache.get(key);
+
+  if (auth && auth.expiresAt - EXPIRY_MARGIN_MS <= now) {
+    cache.delete(key);
+    return undefined;
+  }
+
+  return auth;
+}
+
+/**
+ * Store auth for the caller, dropping expired entries along the way
+ */
+export function cacheHarmonyAuth(bearerToken: string, tenant: string, auth: HarmonyAuth, now: number = Date.now()): HarmonyAuth {
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= now) {
+      cache.delete(key);
+    }
+  }
+
+  cache.set(cacheKey(bearerToken, tenant), auth);
+  return auth;
+}
+
+/**
+ * Forget the caller's auth, e.g. after Geppetto rejected the token with 401
+ */
+export function invalidateHarmonyAuth(bearerToken: string, tenant: string): void {
+  if (cache.delete(cacheKey(bearerToken, tenant))) {
+    console.log(`[Harmony] Invalidated cached Geppetto auth for tenant: ${tenant}`);
+  }
+}
+
+/**
+ * Remove all cached auth (for tests)
+ */
+export function clearHarmonyAuthCache(): void {
+  cache.clear();
+}
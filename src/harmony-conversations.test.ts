@@ -0,0 +1,84 @@
+/**
+ * Tests for Harmony Search conversations
+ * Verifies caller binding, the per-caller cap and idle expiry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  saveConversation,
+  getConversation,
+  endConversation,
+  sweepExpiredConversations,
+  startConversationSweeper,
+  stopConversationSweeper,
+  clearConversations,
+} from './harmony-conversations.js';
+
+const session = { sessionId: 'geppetto-1' };
+
+describe('harmony conversations', () => {
+  beforeEach(() => {
+    clearConversations();
+  });
+
+  afterEach(() => {
+    stopConversationSweeper();
+    vi.useRealTimers();
+  });
+
+  it('returns conversations to the tenant and token that started them', () => {
+    saveConversation(session, 'token-a', 'acme');
+
+    expect(getConversation('geppetto-1', 'token-a', 'acme')?.session).toBe(session);
+    expect(getConversation('geppetto-1', 'token-b', 'acme')).toBeUndefined();
+    expect(getConversation('geppetto-1', 'token-a', 'other')).toBeUndefined();
+  });
+
+  it('does not store the bearer token', () => {
+    const conversation = saveConversation(session, 'token-a', 'acme');
+
+    expect(JSON.stringify(conversation)).not.toContain('token-a');
+  });
+
+  it('ends conversations only for their owner', () => {
+    saveConversation(session, 'token-a', 'acme');
+
+    expect(endConversation('geppetto-1', 'token-b', 'acme')).toBe(false);
+    expect(endConversation('geppetto-1', 'token-a', 'acme')).toBe(true);
+    expect(getConversation('geppetto-1', 'token-a', 'acme')).toBeUndefined();
+  });
+
+  it('ends the least recently used conversation of a caller holding too many', () => {
+    vi.useFakeTimers();
+    for (let i = 1; i <= 10; i++) {
+      saveConversation({ sessionId: `geppetto-${i}` }, 'token-a', 'acme');
+      vi.advanceTimersByTime(1000);
+    }
+    getConversation('geppetto-1', 'token-a', 'acme');
+    saveConversation({ sessionId: 'geppetto-other' }, 'token-b', 'acme');
+
+    saveConversation({ sessionId: 'geppetto-11' }, 'token-a', 'acme');
+
+    expect(getConversation('geppetto-1', 'token-a', 'acme')).toBeDefined();
+    expect(getConversation('geppetto-2', 'token-a', 'acme')).toBeUndefined();
+    expect(getConversation('geppetto-other', 'token-b', 'acme')).toBeDefined();
+  });
+
+  it('expires idle conversations on lookup and on sweep', () => {
+    vi.useFakeTimers();
+    startConversationSweeper(60_000);
+    saveConversation(session, 'token-a', 'acme');
+    saveConversation({ ...session, sessionId: 'geppetto-2' }, 'token-a', 'acme');
+
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(getConversation('geppetto-1', 'token-a', 'acme')).toBeDefined();
+
+    vi.setSystemTime(Date.now() + 45_000);
+    expect(sweepExpiredConversations()).toBe(1);
+    expect(getConversation('geppetto-1', 'token-a', 'acme')).toBeDefined();
+    expect(getConversation('geppetto-2', 'token-a', 'acme')).toBeUndefined();
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(getConversation('geppetto-1', 'token-a', 'acme')).toBeUndefined();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Harmony Search conversations
+ * Keeps Geppetto chat sessions open between tool calls so follow-up questions
+ * share conversational context. Conversations are bound to the tenant and the
+ * caller's bearer token, are capped per caller, and expire after a period of
+ * inactivity. A refreshed token is a different caller here, so refreshing ends
+ * open conversations.
+ * Storage is in-memory: conversations do not survive a restart or span instances.
+ */
+
+import { HarmonySession } from './docebo.js';
+import { tokenIdentity } from './harmony-auth-cache.js';
+
+export interface HarmonyConversation {
+  id: string; // Geppetto session ID, exposed to clients as session_id
+  tenant: string;
+  tokenHash: string;
+  session: HarmonySession;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+const DEFAULT_TTL_MS = 15 * 60_000;
+
+// Conversations one caller may hold; starting another ends its least recently used one
+const MAX_CONVERSATIONS_PER_OWNER = 10;
+
+const conversations = new Map<string, HarmonyConversation>();
+let ttlMs = DEFAULT_TTL_MS;
+let sweeper: NodeJS.Timeout | undefined;
+
+function isExpired(conversation: HarmonyConversation, now: number): boolean {
+  return now - conversation.lastUsedAt > ttlMs;
+}
+
+/**
+ * Register a freshly started Geppetto session as a conversation
+ */
+export function saveConversation(session: HarmonySession, bearerToken: string, tenant: string): HarmonyConversation {
+  const tokenHash = tokenIdentity(bearerToken);
+  const owned = [...conversations.values()].filter((c) => c.tenant === tenant && c.tokenHash === tokenHash);
+
+  if (owned.length >= MAX_CONVERSATIONS_PER_OWNER) {
+    const leastRecent = owned.reduce((a, b) => (b.lastUsedAt < a.lastUsedAt ? b : a));
+    conversations.delete(leastRecent.id);
+    console.log(`[Harmony] Ended conversation ${leastRecent.id}: too many open for its caller`);
+  }
+
+  const now = Date.now();
+  const conversation: HarmonyConversation = {
+    id: session.sessionId,
+    tenant,
+    tokenHash,
+    session,
+    createdAt: now,
+    lastUsedAt: now,
+  };
+
+  conversations.set(conversation.id, conversation);
+  console.log(`[Harmony] Started conversation ${conversation.id} for tenant: ${tenant}`);
+
+  return conversation;
+}
+
+/**
+ * Look up a live conversation owned by the caller, marking it as used
+ */
+export function getConversation(id: string, bearerToken: string, tenant: string): HarmonyConversation | undefined {
+  const conversation = conversations.get(id);
+
+  if (!conversation || conversation.tenant !== tenant || conversation.tokenHash !== tokenIdentity(bearerToken)) {
+    return undefined;
+  }
+
+  const now = Date.now();
+
+  if (isExpired(conversation, now)) {
+    conversations.delete(id);
+    return undefined;
+  }
+
+  conversation.lastUsedAt = now;
+  return conversation;
+}
+
+/**
+ * End a conversation owned by the caller. Returns false if it was not found.
+ */
+export function endConversation(id: string, bearerToken: string, tenant: string): boolean {
+  if (!getConversation(id, bearerToken, tenant)) {
+    return false;
+  }
+
+  conversations.delete(id);
+  console.log(`[Harmony] Ended conversation ${id}`);
+
+  return true;
+}
+
+/**
+ * Remove conversations idle for longer than the TTL
+ */
+export function sweepExpiredConversations(now: number = Date.now()): number {
+  let removed = 0;
+
+  for (const [id, conversation] of conversations) {
+    if (isExpired(conversation, now)) {
+      conversations.delete(id);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[Harmony] Expired ${removed} idle conversation(s)`);
+  }
+
+  return removed;
+}
+
+/**
+ * Set the idle TTL and periodically expire idle conversations
+ */
+export function startConversationSweeper(idleTtlMs: number): void {
+  stopConversationSweeper();
+  ttlMs = idleTtlMs;
+  sweeper = setInterval(() => sweepExpiredConversations(), Math.min(idleTtlMs, 60_000));
+  sweeper.unref();
+}
+
+export function stopConversationSweeper(): void {
+  if (sweeper) {
+    clearInterval(sweeper);
+    sweeper = undefined;
+  }
+}
+
+/**
+ * Remove all conversations and restore the default TTL (for tests)
+ */
+export function clearConversations(): void {
+  conversations.clear();
+  ttlMs = DEFAULT_TTL_MS;
+}
@@ -2,17 +2,41 @@
  * Unit tests for MCP JSON-RPC handler
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { handleMcpRequest } from './mcp.js';
+import { describe, it, expect, vi, beforeEach, beforeAll, afterEach } from 'vitest';
+import { handleMcpRequest, handleMcpMessages, SUPPORTED_PROTOCOL_VERSIONS } from './mcp.js';
 
-// Mock the docebo module
-vi.mock('./docebo.js', () => ({
+// Mock the docebo API calls (keep the pure helpers)
+vi.mock('./docebo.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./docebo.js')>(),
   listUsers: vi.fn(),
   enrollUser: vi.fn(),
-  harmonySearch: vi.fn(),
+  bulkEnroll: vi.fn(),
+  listEnrollments: vi.fn(),
+  updateEnrollment: vi.fn(),
+  unenrollUser: vi.fn(),
+  startHarmonySession: vi.fn(),
+  sendHarmonyMessage: vi.fn(),
+  listCourses: vi.fn(),
+  getCourse: vi.fn(),
+  getCourseDetails: vi.fn(),
+  getUser: vi.fn(),
+  createUser: vi.fn(),
+  updateUser: vi.fn(),
+  setUserStatus: vi.fn(),
+  getLearningPlan: vi.fn(),
+  getLearningPlanProgress: vi.fn(),
+  listBranchUsers: vi.fn(),
+  listGroupMembers: vi.fn(),
+  addGroupMembers: vi.fn(),
+  listClassroomSessions: vi.fn(),
+  enrollSessionUser: vi.fn(),
+  listExpiringCertifications: vi.fn(),
 }));
 
-import { listUsers, enrollUser, harmonySearch } from './docebo.js';
+import { listUsers, createUser, updateUser, setUserStatus, enrollUser, bulkEnroll, listEnrollments, updateEnrollment, startHarmonySession, sendHarmonyMessage, getCourse, getCourseDetails, getLearningPlanProgress, listBranchUsers, listGroupMembers, addGroupMembers, listClassroomSessions, enrollSessionUser, listExpiringCertifications } from './docebo.js';
+import { clearConversations } from './harmony-conversations.js';
+import { registerTools, ToolContext } from './tool-registry.js';
+import { DoceboForbiddenError, DoceboAuthExpiredError } from './docebo-errors.js';
 
 describe('handleMcpRequest', () => {
   const mockBearerToken = 'test-token-123';
@@ -20,6 +44,7 @@ describe('handleMcpRequest', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    clearConversations();
   });
 
   describe('initialize', () => {
@@ -43,10 +68,38 @@ describe('handleMcpRequest', () => {
         },
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       });
     });
 
+    it('should echo a supported protocol version requested by the client', async () => {
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18' },
+      };
+
+      const response = await handleMcpRequest(request, mockBearerToken, mockTenant);
+
+      expect('result' in response && (response.result as any).protocolVersion).toBe('2025-06-18');
+    });
+
+    it('should offer the newest supported version for an unknown client version', async () => {
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2099-01-01' },
+      };
+
+      const response = await handleMcpRequest(request, mockBearerToken, mockTenant);
+
+      expect('result' in response && (response.result as any).protocolVersion).toBe(SUPPORTED_PROTOCOL_VERSIONS[0]);
+    });
+
     it('should reject invalid JSON-RPC version', async () => {
       const request = {
         jsonrpc: '1.0' as any,
@@ -74,10 +127,43 @@ describe('handleMcpRequest', () => {
 
       expect('result' in response && response.result).toHaveProperty('tools');
       const tools = 'result' in response && response.result && (response.result as any).tools;
-      expect(tools).toHaveLength(3);
-      expect(tools[0].name).toBe('docebo_list_users');
-      expect(tools[1].name).toBe('docebo_harmony_search');
-      expect(tools[2].name).toBe('docebo_enroll_user');
+      expect(tools.map((tool: any) => tool.name)).toEqual([
+        'docebo_list_users',
+        'docebo_get_user',
+        'docebo_create_user',
+        'docebo_update_user',
+        'docebo_set_user_status',
+        'docebo_harmony_search',
+        'docebo_harmony_conversation',
+        'docebo_enroll_user',
+        'docebo_bulk_enroll',
+        'docebo_list_enrollments',
+        'docebo_get_user_progress',
+        'docebo_update_enrollment',
+        'docebo_unenroll_user',
+        'docebo_list_courses',
+        'docebo_get_course',
+        'docebo_list_course_sessions',
+        'docebo_list_session_enrollments',
+        'docebo_enroll_session',
+        'docebo_mark_attendance',
+        'docebo_list_learning_plans',
+        'docebo_get_learning_plan',
+        'docebo_enroll_learning_plan',
+        'docebo_get_learning_plan_progress',
+        'docebo_list_branches',
+        'docebo_list_branch_users',
+        'docebo_list_groups',
+        'docebo_list_group_members',
+        'docebo_add_group_members',
+        'docebo_remove_group_members',
+        'docebo_list_certifications',
+        'docebo_list_certification_holders',
+        'docebo_list_expiring_certifications',
+      ]);
+      const harmonyTool = tools.find((tool: any) => tool.name === 'docebo_harmony_search');
+      expect(harmonyTool.outputSchema.required).toContain('answer');
+      expect(tools[0]).not.toHaveProperty('outputSchema');
     });
   });
 
@@ -115,6 +201,343 @@ describe('handleMcpRequest', () => {
     });
   });
 
+  describe('tools/call - fetch_all', () => {
+    const callListUsers = async (args: Record<string, unknown>) => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'docebo_list_users', arguments: args } },
+        mockBearerToken,
+        mockTenant
+      );
+      return JSON.parse('result' in response ? (response.result as any).content[0].text : 'null');
+    };
+
+    // Three full pages of 200 users, IDs 1 to 600
+    beforeEach(() => {
+      vi.mocked(listUsers).mockImplementation(async ({ page = 1, page_size = 200 } = {}) => ({
+        data: {
+          items: Array.from({ length: page_size }, (_, i) => ({ user_id: (page - 1) * page_size + i + 1, username: 'u' })) as any,
+          total_count: 600,
+          current_page: page,
+          page_size,
+          has_more_page: page < 3,
+        },
+      }));
+    });
+
+    afterEach(() => {
+      vi.mocked(listUsers).mockReset();
+    });
+
+    it('should return every page when under the cap', async () => {
+      const result = await callListUsers({ fetch_all: true, search_text: 'u' });
+
+      expect(listUsers).toHaveBeenCalledTimes(3);
+      expect(listUsers).toHaveBeenLastCalledWith(expect.objectContaining({ search_text: 'u', page: 3, page_size: 200 }), mockBearerToken, mockTenant);
+      expect(result.data.count).toBe(600);
+      expect(result.data.has_more_page).toBe(false);
+      expect(result.data.next_cursor).toBeUndefined();
+    });
+
+    it('should stop at max_items and continue from the cursor', async () => {
+      const first = await callListUsers({ fetch_all: true, max_items: 250 });
+      expect(first.data.items.map((u: any) => u.user_id)).toEqual(Array.from({ length: 250 }, (_, i) => i + 1));
+      expect(first.data.has_more_page).toBe(true);
+
+      const second = await callListUsers({ cursor: first.data.next_cursor, max_items: 250 });
+      expect(second.data.items[0].user_id).toBe(251);
+      expect(second.data.items[249].user_id).toBe(500);
+
+      const last = await callListUsers({ cursor: second.data.next_cursor, max_items: 250 });
+      expect(last.data.count).toBe(100);
+      expect(last.data.next_cursor).toBeUndefined();
+    });
+
+    it('should reject max_items above the hard cap and unknown cursors', async () => {
+      const overCap = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'docebo_list_users', arguments: { fetch_all: true, max_items: 5000 } } },
+        mockBearerToken,
+        mockTenant
+      );
+      const badCursor = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'docebo_list_users', arguments: { cursor: 'not-a-cursor' } } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('error' in overCap && overCap.error.code).toBe(-32602);
+      expect('error' in badCursor && badCursor.error.message).toContain('Invalid cursor');
+    });
+  });
+
+  describe('tools/call - user lifecycle', () => {
+    const callTool = (name: string, args: Record<string, unknown>) =>
+      handleMcpRequest({ jsonrpc: '2.0', id: 22, method: 'tools/call', params: { name, arguments: args } }, mockBearerToken, mockTenant);
+
+    it('should create a user', async () => {
+      vi.mocked(createUser).mockResolvedValueOnce({ user_id: 42, username: 'jdoe' });
+      const args = { username: 'jdoe', email: 'jdoe@example.com', first_name: 'Jane', last_name: 'Doe', additional_fields: { '12': 'Sales' } };
+
+      const response = await callTool('docebo_create_user', args);
+
+      expect(createUser).toHaveBeenCalledWith(args, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text)).toEqual({ user_id: 42, username: 'jdoe' });
+    });
+
+    it('should validate required user fields', async () => {
+      const response = await callTool('docebo_create_user', { username: 'jdoe' });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect(createUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update without changes', async () => {
+      const response = await callTool('docebo_update_user', { user_id: 42 });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a misspelled update field', async () => {
+      const response = await callTool('docebo_update_user', { user_id: 42, emial: 'a@b.c' });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.message).toContain('emial');
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should deactivate a user', async () => {
+      vi.mocked(setUserStatus).mockResolvedValueOnce({ success: true, user_id: 42, status: 'inactive' });
+
+      await callTool('docebo_set_user_status', { user_id: 42, status: 'inactive' });
+
+      expect(setUserStatus).toHaveBeenCalledWith({ user_id: 42, status: 'inactive' }, mockBearerToken, mockTenant);
+    });
+  });
+
+  describe('tools/call - enrollment management', () => {
+    const callTool = (name: string, args: Record<string, unknown>) =>
+      handleMcpRequest({ jsonrpc: '2.0', id: 21, method: 'tools/call', params: { name, arguments: args } }, mockBearerToken, mockTenant);
+
+    it('should list enrollments of a course', async () => {
+      vi.mocked(listEnrollments).mockResolvedValueOnce({
+        data: { items: [], total_count: 0, current_page: 1, page_size: 20, has_more_page: false },
+      });
+
+      await callTool('docebo_list_enrollments', { course_id: 456, status: 'completed' });
+
+      expect(listEnrollments).toHaveBeenCalledWith({ course_id: 456, status: 'completed' }, mockBearerToken, mockTenant);
+    });
+
+    it('should require a user or a course to list enrollments', async () => {
+      const response = await callTool('docebo_list_enrollments', { status: 'completed' });
+
+      expect('error' in response && response.error).toEqual({ code: -32602, message: 'Provide user_id, course_id, or both' });
+      expect(listEnrollments).not.toHaveBeenCalled();
+    });
+
+    it('should update an enrollment', async () => {
+      vi.mocked(updateEnrollment).mockResolvedValueOnce({ success: true, user_id: 123, course_id: 456, updated: ['status'] });
+
+      await callTool('docebo_update_enrollment', { user_id: 123, course_id: 456, status: 'suspended' });
+
+      expect(updateEnrollment).toHaveBeenCalledWith({ user_id: 123, course_id: 456, status: 'suspended' }, mockBearerToken, mockTenant);
+    });
+
+    it('should render bulk enrollment results as a table', async () => {
+      vi.mocked(bulkEnroll).mockResolvedValueOnce({
+        summary: { enrolled: 1, waiting: 0, already_enrolled: 0, failed: 1 },
+        results: [
+          { user_id: 1, course_id: 10, status: 'enrolled' },
+          { user_id: 2, course_id: 10, status: 'failed', reason: 'User not found' },
+        ],
+      });
+
+      const response = await callTool('docebo_bulk_enroll', { user_ids: [1, 2], course_ids: [10] });
+
+      expect(bulkEnroll).toHaveBeenCalledWith({ user_ids: [1, 2], course_ids: [10] }, mockBearerToken, mockTenant);
+      const result = 'result' in response && (response.result as any);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe([
+        'Enrolled: 1, waiting: 0, already enrolled: 0, failed: 1',
+        '',
+        '| user_id | course_id | status | reason |',
+        '|---------|-----------|--------|--------|',
+        '| 1 | 10 | enrolled |  |',
+        '| 2 | 10 | failed | User not found |',
+      ].join('\n'));
+    });
+
+    it('should require users for bulk enrollment', async () => {
+      const response = await callTool('docebo_bulk_enroll', { course_ids: [10] });
+
+      expect('error' in response && response.error.message).toBe('Provide user_ids, branch_id or group_id');
+    });
+
+    it('should reject an update without changes', async () => {
+      const response = await callTool('docebo_update_enrollment', { user_id: 123, course_id: 456 });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect(updateEnrollment).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown enrollment update fields', async () => {
+      const response = await callTool('docebo_update_enrollment', { user_id: 123, course_id: 456, foo: 'bar' });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect(updateEnrollment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tools/call - docebo_get_learning_plan_progress', () => {
+    it('should call getLearningPlanProgress with the plan and user IDs', async () => {
+      const progress = { learning_plan_id: 9, user_id: 3, total_courses: 2, completed_courses: 1, percent_complete: 50, courses: [] };
+      vi.mocked(getLearningPlanProgress).mockResolvedValueOnce(progress);
+
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 23,
+          method: 'tools/call',
+          params: { name: 'docebo_get_learning_plan_progress', arguments: { learning_plan_id: 9, user_id: 3 } },
+        },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect(getLearningPlanProgress).toHaveBeenCalledWith(9, 3, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text)).toEqual(progress);
+    });
+  });
+
+  describe('tools/call - classroom sessions', () => {
+    const callTool = (name: string, args: Record<string, unknown>) =>
+      handleMcpRequest({ jsonrpc: '2.0', id: 25, method: 'tools/call', params: { name, arguments: args } }, mockBearerToken, mockTenant);
+
+    it('should list sessions with their events when asked', async () => {
+      const sessions = [{ id: 70, name: 'Morning', seats: { max: 12, enrolled: 12, available: 0, waiting: 2 } }];
+      vi.mocked(listClassroomSessions).mockResolvedValueOnce(sessions);
+
+      const response = await callTool('docebo_list_course_sessions', { course_id: 7, include_events: true });
+
+      expect(listClassroomSessions).toHaveBeenCalledWith(7, { include_events: true }, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text)).toEqual({ sessions });
+    });
+
+    it('should enroll a user into a session', async () => {
+      vi.mocked(enrollSessionUser).mockResolvedValueOnce({ success: true, user_id: 3, course_id: 7, session_id: 70, status: 'waiting' });
+
+      await callTool('docebo_enroll_session', { user_id: 3, course_id: 7, session_id: 70, level: 6 });
+
+      expect(enrollSessionUser).toHaveBeenCalledWith({ user_id: 3, course_id: 7, session_id: 70, level: 6 }, mockBearerToken, mockTenant);
+    });
+
+    it('should require the attendance flag', async () => {
+      const response = await callTool('docebo_mark_attendance', { course_id: 7, session_id: 70, event_id: 5, user_ids: [3] });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+    });
+  });
+
+  describe('tools/call - docebo_list_expiring_certifications', () => {
+    const callTool = (args: Record<string, unknown>) => handleMcpRequest(
+      { jsonrpc: '2.0', id: 26, method: 'tools/call', params: { name: 'docebo_list_expiring_certifications', arguments: args } },
+      mockBearerToken,
+      mockTenant
+    );
+
+    it('should return where the scan stopped as a cursor, and continue from it', async () => {
+      const next = { active: [[12, 3]] as Array<[number, number]>, started: 15 };
+      vi.mocked(listExpiringCertifications)
+        .mockResolvedValueOnce({ expiring_before: '2026-11-17', data: { items: [], count: 0, has_more_page: true }, next })
+        .mockResolvedValueOnce({ expiring_before: '2026-11-17', data: { items: [], count: 0, has_more_page: false } });
+
+      const first = await callTool({ days: 30 });
+      const { data } = JSON.parse('result' in first ? (first.result as any).content[0].text : 'null');
+      await callTool({ days: 30, cursor: data.next_cursor });
+
+      expect(listExpiringCertifications).toHaveBeenNthCalledWith(1, { days: 30, from: undefined }, mockBearerToken, mockTenant);
+      expect(listExpiringCertifications).toHaveBeenNthCalledWith(2, { days: 30, from: next }, mockBearerToken, mockTenant);
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      const response = await callTool({ days: 30, cursor: Buffer.from('{"active":[],"started":-1}').toString('base64url') });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect(listExpiringCertifications).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tools/call - branches and groups', () => {
+    const callTool = (name: string, args: Record<string, unknown>) =>
+      handleMcpRequest({ jsonrpc: '2.0', id: 24, method: 'tools/call', params: { name, arguments: args } }, mockBearerToken, mockTenant);
+
+    const usersPage = {
+      data: {
+        items: [
+          { user_id: 3, username: 'a', email: 'a@example.com', first_name: 'A', last_name: 'A' },
+          { user_id: 5, username: 'b', email: 'b@example.com', first_name: 'B', last_name: 'B' },
+        ],
+        total_count: 2,
+        current_page: 1,
+        page_size: 20,
+        has_more_page: false,
+      },
+    };
+
+    it('should return branch users with their IDs for enrollment', async () => {
+      vi.mocked(listBranchUsers).mockResolvedValueOnce(usersPage);
+
+      const response = await callTool('docebo_list_branch_users', { branch_id: 8, page: 2 });
+
+      expect(listBranchUsers).toHaveBeenCalledWith(8, { page: 2 }, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text).user_ids).toEqual([3, 5]);
+    });
+
+    it('should return group members with their IDs for enrollment', async () => {
+      vi.mocked(listGroupMembers).mockResolvedValueOnce(usersPage);
+
+      const response = await callTool('docebo_list_group_members', { group_id: 4 });
+
+      expect(listGroupMembers).toHaveBeenCalledWith(4, {}, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text).user_ids).toEqual([3, 5]);
+    });
+
+    it('should add users to a group', async () => {
+      vi.mocked(addGroupMembers).mockResolvedValueOnce({ success: true, group_id: 4, user_ids: [3, 5] });
+
+      await callTool('docebo_add_group_members', { group_id: 4, user_ids: [3, 5] });
+
+      expect(addGroupMembers).toHaveBeenCalledWith({ group_id: 4, user_ids: [3, 5] }, mockBearerToken, mockTenant);
+    });
+  });
+
+  describe('tools/call - docebo_get_course', () => {
+    it('should call getCourseDetails with the course ID', async () => {
+      const mockCourse = {
+        id: 7,
+        name: 'Safety 101',
+        enrollment_policy: { self_enrollment: 'free' as const },
+        sessions: [],
+      };
+      vi.mocked(getCourseDetails).mockResolvedValueOnce(mockCourse);
+
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 20, method: 'tools/call', params: { name: 'docebo_get_course', arguments: { course_id: 7 } } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect(getCourseDetails).toHaveBeenCalledWith(7, mockBearerToken, mockTenant);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text)).toEqual(mockCourse);
+    });
+  });
+
   describe('tools/call - docebo_enroll_user', () => {
     it('should call enrollUser and return results', async () => {
       const mockEnrollmentResult = {
@@ -159,9 +582,10 @@ describe('handleMcpRequest', () => {
 
       expect('error' in response && response.error).toBeDefined();
       expect('error' in response && response.error.code).toBe(-32602);
-      expect('error' in response && response.error.message).toContain(
-        'Missing required parameters'
-      );
+      expect('error' in response && response.error.message).toContain('course_id: is required');
+      expect('error' in response && response.error.data).toEqual({
+        errors: [{ field: 'course_id', message: 'is required' }],
+      });
       expect(enrollUser).not.toHaveBeenCalled();
     });
 
@@ -184,15 +608,86 @@ describe('handleMcpRequest', () => {
     });
   });
 
-  describe('tools/call - docebo_harmony_search', () => {
-    it('should call harmonySearch and return results', async () => {
-      const mockSearchResult = {
-        query: 'test query',
-        sessionId: 'session-123',
-        events: [],
+  describe('tools/call - argument validation', () => {
+    it('should report every invalid field for enroll_user', async () => {
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 12,
+        method: 'tools/call',
+        params: {
+          name: 'docebo_enroll_user',
+          arguments: {
+            user_id: '123',
+            course_id: 456,
+            level: 5,
+            date_begin_validity: '2025-02-30',
+          },
+        },
       };
 
-      vi.mocked(harmonySearch).mockResolvedValueOnce(mockSearchResult);
+      const response = await handleMcpRequest(request, mockBearerToken, mockTenant);
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.data).toEqual({
+        errors: [
+          { field: 'user_id', message: 'must be of type number, got string' },
+          { field: 'level', message: 'must be one of: 3, 4, 6' },
+          { field: 'date_begin_validity', message: 'must be a valid date in yyyy-mm-dd format' },
+        ],
+      });
+      expect(enrollUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject out-of-range list_users page_size', async () => {
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 13,
+        method: 'tools/call',
+        params: {
+          name: 'docebo_list_users',
+          arguments: { page_size: 500, sort_dir: 'up' },
+        },
+      };
+
+      const response = await handleMcpRequest(request, mockBearerToken, mockTenant);
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.message).toBe(
+        'Invalid arguments for docebo_list_users: page_size: must be <= 200; sort_dir: must be one of: "asc", "desc"'
+      );
+      expect(listUsers).not.toHaveBeenCalled();
+    });
+
+    it('should treat missing arguments as an empty object', async () => {
+      vi.mocked(listUsers).mockResolvedValueOnce({ data: { items: [] } } as any);
+
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 14,
+        method: 'tools/call',
+        params: { name: 'docebo_list_users' },
+      };
+
+      await handleMcpRequest(request, mockBearerToken, mockTenant);
+
+      expect(listUsers).toHaveBeenCalledWith({}, mockBearerToken, mockTenant);
+    });
+  });
+
+  describe('tools/call - docebo_harmony_search', () => {
+    const mockSession = { sessionId: 'session-123' };
+    const mockAnswer = { query: 'test query', sessionId: 'session-123', answer: 'Hello', citations: [], followUps: [] };
+
+    const callTool = (name: string, args: Record<string, unknown>, bearerToken = mockBearerToken) =>
+      handleMcpRequest(
+        { jsonrpc: '2.0', id: 10, method: 'tools/call', params: { name, arguments: args } },
+        bearerToken,
+        mockTenant
+      );
+
+    it('should start a conversation and return results', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockResolvedValueOnce(mockAnswer);
 
       const request = {
         jsonrpc: '2.0' as const,
@@ -206,12 +701,252 @@ describe('handleMcpRequest', () => {
 
       const response = await handleMcpRequest(request, mockBearerToken, mockTenant);
 
-      expect(harmonySearch).toHaveBeenCalledWith(
-        { query: 'test query' },
+      expect(startHarmonySession).toHaveBeenCalledWith(mockBearerToken, mockTenant);
+      expect(sendHarmonyMessage).toHaveBeenCalledWith(mockSession, 'test query', mockBearerToken, mockTenant, expect.objectContaining({ includeRaw: undefined }));
+      expect('result' in response && response.result).toEqual({
+        content: [{ type: 'text', text: JSON.stringify(mockAnswer, null, 2) }],
+        structuredContent: mockAnswer,
+      });
+    });
+
+    it('should request the raw stream when debug is set', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockResolvedValueOnce(mockAnswer);
+
+      await callTool('docebo_harmony_search', { query: 'test query', debug: true });
+
+      expect(sendHarmonyMessage).toHaveBeenCalledWith(mockSession, 'test query', mockBearerToken, mockTenant, expect.objectContaining({ includeRaw: true }));
+    });
+
+    it('should forward answer events as progress notifications', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockImplementationOnce(async (_session, _query, _token, _tenant, options) => {
+        options?.onEvent?.({ event: 'token', data: { text: 'Hello' } });
+        options?.onEvent?.({ event: 'done', data: null });
+        return mockAnswer;
+      });
+      const sendNotification = vi.fn();
+
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 8,
+          method: 'tools/call',
+          params: {
+            name: 'docebo_harmony_search',
+            arguments: { query: 'test query' },
+            _meta: { progressToken: 'tok-1' },
+          },
+        },
+        mockBearerToken,
+        mockTenant,
+        { sendNotification }
+      );
+
+      expect(sendNotification.mock.calls.map((call) => call[0])).toEqual([
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken: 'tok-1', progress: 1, message: 'Hello' },
+        },
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken: 'tok-1', progress: 2, message: 'Received done event' },
+        },
+      ]);
+      const content = 'result' in response && (response.result as any).content;
+      expect(JSON.parse(content[0].text)).toEqual(mockAnswer);
+    });
+
+    it('should not send progress without a progressToken', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockImplementationOnce(async (_session, _query, _token, _tenant, options) => {
+        options?.onEvent?.({ event: 'token', data: { text: 'Hello' } });
+        return mockAnswer;
+      });
+      const sendNotification = vi.fn();
+
+      await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 9,
+          method: 'tools/call',
+          params: { name: 'docebo_harmony_search', arguments: { query: 'test query' } },
+        },
+        mockBearerToken,
+        mockTenant,
+        { sendNotification }
+      );
+
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should continue an existing conversation with session_id', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockResolvedValue(mockAnswer);
+
+      await callTool('docebo_harmony_search', { query: 'first question' });
+      await callTool('docebo_harmony_search', { query: 'follow-up', session_id: 'session-123' });
+
+      expect(startHarmonySession).toHaveBeenCalledTimes(1);
+      expect(sendHarmonyMessage).toHaveBeenLastCalledWith(mockSession, 'follow-up', mockBearerToken, mockTenant, expect.any(Object));
+    });
+
+    it('should reject an unknown session_id', async () => {
+      const response = await callTool('docebo_harmony_search', { query: 'follow-up', session_id: 'missing' });
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.message).toContain('Unknown or expired Harmony conversation: missing');
+      expect(sendHarmonyMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not let another bearer token reuse a conversation', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+      vi.mocked(sendHarmonyMessage).mockResolvedValue(mockAnswer);
+
+      await callTool('docebo_harmony_search', { query: 'first question' });
+      const response = await callTool('docebo_harmony_search', { query: 'follow-up', session_id: 'session-123' }, 'other-token');
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.message).toContain('when the access token is refreshed');
+    });
+
+    it('should start and end conversations with docebo_harmony_conversation', async () => {
+      vi.mocked(startHarmonySession).mockResolvedValueOnce(mockSession);
+
+      const started = await callTool('docebo_harmony_conversation', { action: 'start' });
+      const ended = await callTool('docebo_harmony_conversation', { action: 'end', session_id: 'session-123' });
+      const again = await callTool('docebo_harmony_search', { query: 'follow-up', session_id: 'session-123' });
+
+      expect(JSON.parse((started as any).result.content[0].text)).toEqual({ session_id: 'session-123' });
+      expect(JSON.parse((ended as any).result.content[0].text)).toEqual({ session_id: 'session-123', ended: true });
+      expect('error' in again && again.error.code).toBe(-32602);
+    });
+
+    it('should require session_id to end a conversation', async () => {
+      const response = await callTool('docebo_harmony_conversation', { action: 'end' });
+
+      expect('error' in response && response.error.message).toBe('session_id is required to end a conversation');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list prompts', async () => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 30, method: 'prompts/list' },
         mockBearerToken,
         mockTenant
       );
-      expect('result' in response && response.result).toHaveProperty('content');
+
+      const prompts = 'result' in response && (response.result as any).prompts;
+      expect(prompts.map((p: any) => p.name)).toEqual([
+        'onboard_new_hire',
+        'find_overdue_learners',
+        'summarize_learning_progress',
+      ]);
+    });
+
+    it('should render a prompt with its arguments', async () => {
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 31,
+          method: 'prompts/get',
+          params: { name: 'onboard_new_hire', arguments: { user: 'jane.doe@example.com' } },
+        },
+        mockBearerToken,
+        mockTenant
+      );
+
+      const messages = 'result' in response && (response.result as any).messages;
+      expect(messages[0].role).toBe('user');
+      expect(messages[0].content.text).toContain('jane.doe@example.com');
+      expect(messages[0].content.text).toContain('docebo_enroll_user');
+    });
+
+    it('should reject missing required prompt arguments', async () => {
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 32,
+          method: 'prompts/get',
+          params: { name: 'find_overdue_learners', arguments: {} },
+        },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('error' in response && response.error.code).toBe(-32602);
+      expect('error' in response && response.error.message).toBe(
+        'Missing required arguments for find_overdue_learners: branch'
+      );
+    });
+
+    it('should reject unknown prompts', async () => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 33, method: 'prompts/get', params: { name: 'nope' } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('error' in response && response.error.message).toBe('Unknown prompt: nope');
+    });
+  });
+
+  describe('resources', () => {
+    it('should list resource templates', async () => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 20, method: 'resources/templates/list' },
+        mockBearerToken,
+        mockTenant
+      );
+
+      const templates = 'result' in response && (response.result as any).resourceTemplates;
+      expect(templates).toHaveLength(3);
+    });
+
+    it('should read a course resource', async () => {
+      vi.mocked(getCourse).mockResolvedValueOnce({ id: 7, name: 'Safety 101' });
+
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 21,
+          method: 'resources/read',
+          params: { uri: 'docebo://riccardo-lr-test/course/7' },
+        },
+        mockBearerToken,
+        mockTenant
+      );
+
+      const contents = 'result' in response && (response.result as any).contents;
+      expect(JSON.parse(contents[0].text)).toEqual({ id: 7, name: 'Safety 101' });
+    });
+
+    it('should return -32002 for unknown resources', async () => {
+      const response = await handleMcpRequest(
+        {
+          jsonrpc: '2.0',
+          id: 22,
+          method: 'resources/read',
+          params: { uri: 'docebo://riccardo-lr-test/badge/1' },
+        },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('error' in response && response.error.code).toBe(-32002);
+    });
+
+    it('should require a uri for resources/read', async () => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 23, method: 'resources/read', params: {} },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('error' in response && response.error.code).toBe(-32602);
     });
   });
 
@@ -283,7 +1018,33 @@ describe('handleMcpRequest', () => {
       expect('error' in response && response.error).toBeDefined();
       expect('error' in response && response.error.code).toBe(-32603);
       expect('error' in response && response.error.message).toBe('API connection failed');
-      expect('error' in response && response.error.data).toBeDefined();
+      expect('error' in response && response.error).not.toHaveProperty('data');
+    });
+
+    it('should return Docebo failures as tool errors with a hint', async () => {
+      vi.mocked(listUsers).mockRejectedValueOnce(new DoceboForbiddenError('Docebo API error: 403 Forbidden - Not allowed'));
+
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 12, method: 'tools/call', params: { name: 'docebo_list_users', arguments: {} } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      const result = 'result' in response && (response.result as any);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('403 Forbidden - Not allowed');
+      expect(result.content[0].text).toContain('Ask a Docebo administrator');
+      expect(result.content[0].text).not.toMatch(/\n\s+at /); // No stack trace
+    });
+
+    it('should leave an expired Docebo token to the transport', async () => {
+      vi.mocked(listUsers).mockRejectedValueOnce(new DoceboAuthExpiredError('Docebo API error: 401 Unauthorized - '));
+
+      await expect(handleMcpMessages(
+        [{ jsonrpc: '2.0', id: 13, method: 'tools/call', params: { name: 'docebo_list_users', arguments: {} } }],
+        mockBearerToken,
+        mockTenant
+      )).rejects.toBeInstanceOf(DoceboAuthExpiredError);
     });
   });
 
@@ -312,4 +1073,138 @@ describe('handleMcpRequest', () => {
       expect(response.id).toBeNull();
     });
   });
+
+  describe('handleMcpMessages', () => {
+    it('should answer each request in a batch in order', async () => {
+      const responses = await handleMcpMessages(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+          { jsonrpc: '2.0', id: 2, method: 'unknown/method' },
+        ],
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect(responses.map((r) => r.id)).toEqual([1, 2]);
+      expect('result' in responses[0]).toBe(true);
+      expect('error' in responses[1] && responses[1].error.code).toBe(-32601);
+    });
+
+    it('should not respond to notifications', async () => {
+      const responses = await handleMcpMessages(
+        [
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', method: 'notifications/unknown' },
+        ],
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect(responses).toEqual([]);
+    });
+
+    it('should ignore client responses to server requests', async () => {
+      const responses = await handleMcpMessages(
+        [{ jsonrpc: '2.0', id: 'srv-1', result: {} }],
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect(responses).toEqual([]);
+    });
+
+    it('should return Invalid Request for malformed batch entries', async () => {
+      const responses = await handleMcpMessages([1, { jsonrpc: '2.0', id: 3 }], mockBearerToken, mockTenant);
+
+      expect(responses).toEqual([
+        {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32600, message: 'Invalid Request: expected a JSON-RPC object' },
+        },
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          error: { code: -32600, message: 'Invalid Request: missing method field' },
+        },
+      ]);
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    // Settles only when the call is aborted
+    const waitForAbort = (_args: unknown, { signal }: ToolContext) =>
+      new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+
+    beforeAll(() => {
+      registerTools([
+        { name: 'test_wait', description: 'Waits until aborted', inputSchema: { type: 'object', properties: {} }, handler: waitForAbort },
+        { name: 'test_slow', description: 'Times out', inputSchema: { type: 'object', properties: {} }, handler: waitForAbort, timeoutMs: 10 },
+      ]);
+    });
+
+    it('should abort a tool call on notifications/cancelled', async () => {
+      const inFlightRequests = new Map<string | number, AbortController>();
+
+      const pending = handleMcpMessages(
+        [{ jsonrpc: '2.0', id: 41, method: 'tools/call', params: { name: 'test_wait', arguments: {} } }],
+        mockBearerToken,
+        mockTenant,
+        { inFlightRequests }
+      );
+      expect(inFlightRequests.has(41)).toBe(true);
+
+      await handleMcpMessages(
+        [{ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 41, reason: 'User pressed stop' } }],
+        mockBearerToken,
+        mockTenant,
+        { inFlightRequests }
+      );
+
+      const [response] = await pending;
+      expect('error' in response && response.error.code).toBe(-32800);
+      expect(inFlightRequests.size).toBe(0);
+    });
+
+    it('should ignore cancellation of unknown requests', async () => {
+      const responses = await handleMcpMessages(
+        [{ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'nope' } }],
+        mockBearerToken,
+        mockTenant,
+        { inFlightRequests: new Map() }
+      );
+
+      expect(responses).toEqual([]);
+    });
+
+    it('should stop waiting for a handler that ignores its signal', async () => {
+      registerTools([{
+        name: 'test_stuck',
+        description: 'Never settles',
+        inputSchema: { type: 'object', properties: {} },
+        handler: () => new Promise(() => {}),
+        timeoutMs: 10,
+      }]);
+
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 43, method: 'tools/call', params: { name: 'test_stuck', arguments: {} } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      expect('result' in response && (response.result as any).isError).toBe(true);
+    });
+
+    it('should report a tool that exceeds its time limit as a tool error', async () => {
+      const response = await handleMcpRequest(
+        { jsonrpc: '2.0', id: 42, method: 'tools/call', params: { name: 'test_slow', arguments: {} } },
+        mockBearerToken,
+        mockTenant
+      );
+
+      const result = 'result' in response && (response.result as any);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('did not finish within 0.01 seconds');
+    });
+  });
 });
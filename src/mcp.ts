@@ -1,12 +1,18 @@
 /**
  * MCP JSON-RPC handler
- * Implements minimal MCP protocol with one tool: docebo.list_users
+ * Implements minimal MCP protocol; tools are served from the tool registry
  */
 
-import { listUsers, ListUsersParams, harmonySearch, HarmonySearchParams, enrollUser, EnrollUserParams } from './docebo.js';
+import { getTool, getToolTimeout, listToolDefinitions, registerTools, formatJsonResult, formatStructuredResult, formatErrorResult, ToolArgumentError } from './tool-registry.js';
+import { withAbortSignal } from './docebo-client.js';
+import { DoceboApiError, DoceboAuthExpiredError, DoceboNotFoundError } from './docebo-errors.js';
+import { builtinTools } from './tools/index.js';
+import { validateArguments, formatValidationIssues } from './schema-validator.js';
+import { listPrompts, getPrompt, PromptArgumentError } from './prompts.js';
+import { listResources, listResourceTemplates, readResource, ResourceNotFoundError, InvalidResourceParamsError } from './resources.js';
 
 // JSON-RPC types
-interface JsonRpcRequest {
+export interface JsonRpcRequest {
   jsonrpc: '2.0';
   id?: string | number | null;
   method: string;
@@ -29,17 +35,19 @@ interface JsonRpcErrorResponse {
   };
 }
 
-type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
 
-// MCP protocol types
-interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+export interface McpRequestOptions {
+  // Delivers server-to-client messages while the request runs (SSE responses only)
+  sendNotification?: (notification: JsonRpcNotification) => void;
+  // Running tool calls of the session by request ID, for notifications/cancelled
+  inFlightRequests?: Map<string | number, AbortController>;
 }
 
 // Error codes per JSON-RPC 2.0 spec
@@ -49,98 +57,46 @@ const ERROR_CODES = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002, // MCP-specific
+  REQUEST_CANCELLED: -32800,
 };
 
+// MCP protocol versions this server speaks, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Assumed when a client does not state a version (per the MCP transport spec)
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+// Register built-in tools once at module load
+registerTools(builtinTools);
+
 /**
- * Available MCP tools
+ * Pick the protocol version for a session from the client's initialize request
+ * Echoes the requested version when supported; otherwise offers the newest
+ * version this server supports and lets the client decide whether to proceed.
  */
-const TOOLS: ToolDefinition[] = [
-  {
-    name: 'docebo_list_users',
-    description: 'List users from Docebo LMS. Returns paginated user data.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        page: {
-          type: 'number',
-          description: 'Page number (1-indexed)',
-        },
-        page_size: {
-          type: 'number',
-          description: 'Number of users per page (default: 200, max: 200)',
-        },
-        sort_attr: {
-          type: 'string',
-          description: 'Attribute to sort by (e.g., "user_id", "username")',
-        },
-        sort_dir: {
-          type: 'string',
-          enum: ['asc', 'desc'],
-          description: 'Sort direction',
-        },
-        search_text: {
-          type: 'string',
-          description: 'Search filter for username or email',
-        },
-      },
-    },
-  },
-  {
-    name: 'docebo_harmony_search',
-    description: 'Search Docebo Learning Management System',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query text',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'docebo_enroll_user',
-    description: 'Enroll a user in a Docebo course. Requires user ID and course ID.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        user_id: {
-          type: 'number',
-          description: 'User ID (numeric)',
-        },
-        course_id: {
-          type: 'number',
-          description: 'Course ID (numeric)',
-        },
-        level: {
-          type: 'number',
-          enum: [3, 4, 6],
-          description: 'Enrollment level: 3=student (default), 4=tutor, 6=instructor',
-        },
-        assignment_type: {
-          type: 'string',
-          enum: ['mandatory', 'required', 'recommended', 'optional'],
-          description: 'Assignment type (optional)',
-        },
-        date_begin_validity: {
-          type: 'string',
-          description: 'Start date for enrollment validity (yyyy-mm-dd format, optional)',
-        },
-        date_expire_validity: {
-          type: 'string',
-          description: 'Expiration date for enrollment (yyyy-mm-dd format, optional)',
-        },
-      },
-      required: ['user_id', 'course_id'],
-    },
-  },
-];
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested !== 'string') {
+    return DEFAULT_PROTOCOL_VERSION;
+  }
+
+  if (SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+
+  console.warn(`[MCP] Client requested unsupported protocol version ${requested}, offering ${SUPPORTED_PROTOCOL_VERSIONS[0]}`);
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
 
 /**
  * Handle MCP JSON-RPC requests
  */
-export async function handleMcpRequest(request: JsonRpcRequest, bearerToken: string, tenant: string): Promise<JsonRpcResponse> {
+export async function handleMcpRequest(
+  request: JsonRpcRequest,
+  bearerToken: string,
+  tenant: string,
+  options: McpRequestOptions = {}
+): Promise<JsonRpcResponse> {
   const requestId = request.id ?? null;
 
   // Validate JSON-RPC version
@@ -159,33 +115,42 @@ export async function handleMcpRequest(request: JsonRpcRequest, bearerToken: str
 
   try {
     switch (request.method) {
-      case 'initialize':
+      case 'initialize': {
+        const params = request.params as { protocolVersion?: unknown } | undefined;
+
         return {
           jsonrpc: '2.0',
           id: requestId,
           result: {
-            protocolVersion: '2025-03-26',
+            protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
             serverInfo: {
               name: 'docebo-mcp-server',
               version: '1.0.0',
             },
             capabilities: {
               tools: {},
+              resources: {},
+              prompts: {},
             },
           },
         };
+      }
 
       case 'tools/list':
         return {
           jsonrpc: '2.0',
           id: requestId,
           result: {
-            tools: TOOLS,
+            tools: listToolDefinitions(),
           },
         };
 
       case 'tools/call': {
-        const params = request.params as { name?: string; arguments?: unknown };
+        const params = request.params as {
+          name?: string;
+          arguments?: unknown;
+          _meta?: { progressToken?: string | number };
+        };
 
         if (!params?.name) {
           return {
@@ -198,83 +163,166 @@ export async function handleMcpRequest(request: JsonRpcRequest, bearerToken: str
           };
         }
 
-        // Route to tool handler
-        if (params.name === 'docebo_list_users') {
-          const toolArgs = (params.arguments as ListUsersParams) || {};
-          const result = await listUsers(toolArgs, bearerToken, tenant);
+        const tool = getTool(params.name);
 
+        if (!tool) {
           return {
             jsonrpc: '2.0',
             id: requestId,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
+            error: {
+              code: ERROR_CODES.METHOD_NOT_FOUND,
+              message: `Unknown tool: ${params.name}`,
             },
           };
         }
 
-        if (params.name === 'docebo_harmony_search') {
-          const toolArgs = (params.arguments as HarmonySearchParams) || { query: '' };
-          const result = await harmonySearch(toolArgs, bearerToken, tenant);
+        // Validate arguments against the advertised inputSchema
+        const toolArgs = params.arguments ?? {};
+        const issues = validateArguments(tool.inputSchema, toolArgs);
 
+        if (issues.length > 0) {
           return {
             jsonrpc: '2.0',
             id: requestId,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
+            error: {
+              code: ERROR_CODES.INVALID_PARAMS,
+              message: `Invalid arguments for ${tool.name}: ${formatValidationIssues(issues)}`,
+              data: { errors: issues },
             },
           };
         }
 
-        if (params.name === 'docebo_enroll_user') {
-          const toolArgs = params.arguments as EnrollUserParams;
+        // Cancelled by notifications/cancelled, or aborted by the tool's time limit
+        const cancellation = new AbortController();
+        const timeoutMs = getToolTimeout(tool);
+        const signal = AbortSignal.any([cancellation.signal, AbortSignal.timeout(timeoutMs)]);
+
+        if (requestId !== null) {
+          options.inFlightRequests?.set(requestId, cancellation);
+        }
 
-          if (!toolArgs?.user_id || !toolArgs?.course_id) {
+        try {
+          const progressToken = params._meta?.progressToken;
+          const reportProgress = progressToken !== undefined && options.sendNotification
+            ? createProgressReporter(progressToken, options.sendNotification)
+            : undefined;
+
+          // Docebo requests made by the handler are aborted with the call; handlers
+          // that ignore the signal are abandoned
+          const result = await untilAborted(signal, withAbortSignal(signal, () =>
+            tool.handler(toolArgs, { bearerToken, tenant, reportProgress, signal })
+          ));
+          const format = tool.formatResult ?? (tool.outputSchema ? formatStructuredResult : formatJsonResult);
+
+          return {
+            jsonrpc: '2.0',
+            id: requestId,
+            result: format(result),
+          };
+        } catch (error) {
+          if (error instanceof ToolArgumentError) {
             return {
               jsonrpc: '2.0',
               id: requestId,
               error: {
                 code: ERROR_CODES.INVALID_PARAMS,
-                message: 'Missing required parameters: user_id and course_id',
+                message: error.message,
               },
             };
           }
 
-          const result = await enrollUser(toolArgs, bearerToken, tenant);
+          // The client has stopped waiting for a response, but one is still owed on the stream
+          if (cancellation.signal.aborted) {
+            return {
+              jsonrpc: '2.0',
+              id: requestId,
+              error: {
+                code: ERROR_CODES.REQUEST_CANCELLED,
+                message: 'Request cancelled',
+              },
+            };
+          }
 
-          return {
-            jsonrpc: '2.0',
-            id: requestId,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            },
-          };
+          if (signal.aborted) {
+            console.warn(`[MCP] Tool ${tool.name} timed out after ${timeoutMs}ms`);
+
+            return {
+              jsonrpc: '2.0',
+              id: requestId,
+              result: formatErrorResult(`${tool.name} did not finish within ${timeoutMs / 1000} seconds; try narrowing the request`),
+            };
+          }
+
+          // Docebo failures are tool execution errors the model can act on; an expired
+          // token is left to the transport, which answers 401 so the client refreshes it
+          if (error instanceof DoceboApiError && !(error instanceof DoceboAuthExpiredError)) {
+            console.warn(`[MCP] Tool ${tool.name} failed:`, error.message);
+
+            return {
+              jsonrpc: '2.0',
+              id: requestId,
+              result: formatErrorResult(`${error.message}\n\n${error.hint}`),
+            };
+          }
+
+          throw error;
+        } finally {
+          if (requestId !== null && options.inFlightRequests?.get(requestId) === cancellation) {
+            options.inFlightRequests.delete(requestId);
+          }
         }
+      }
 
+      case 'prompts/list':
         return {
           jsonrpc: '2.0',
           id: requestId,
-          error: {
-            code: ERROR_CODES.METHOD_NOT_FOUND,
-            message: `Unknown tool: ${params.name}`,
+          result: {
+            prompts: listPrompts(),
           },
         };
+
+      case 'prompts/get': {
+        const params = request.params as { name?: string; arguments?: Record<string, string> } | undefined;
+
+        if (!params?.name) {
+          return {
+            jsonrpc: '2.0',
+            id: requestId,
+            error: {
+              code: ERROR_CODES.INVALID_PARAMS,
+              message: 'Missing required parameter: name',
+            },
+          };
+        }
+
+        try {
+          return {
+            jsonrpc: '2.0',
+            id: requestId,
+            result: getPrompt(params.name, params.arguments),
+          };
+        } catch (error) {
+          if (error instanceof PromptArgumentError) {
+            return {
+              jsonrpc: '2.0',
+              id: requestId,
+              error: {
+                code: ERROR_CODES.INVALID_PARAMS,
+                message: error.message,
+              },
+            };
+          }
+
+          throw error;
+        }
       }
 
+      case 'resources/list':
+      case 'resources/templates/list':
+      case 'resources/read':
+        return await handleResourceRequest(request, requestId, bearerToken, tenant);
+
       default:
         return {
           jsonrpc: '2.0',
@@ -286,6 +334,11 @@ export async function handleMcpRequest(request: JsonRpcRequest, bearerToken: str
         };
     }
   } catch (error) {
+    if (error instanceof DoceboAuthExpiredError) {
+      throw error;
+    }
+
+    // The stack stays in the server log
     console.error('[MCP] Error handling request:', error);
 
     return {
@@ -294,8 +347,206 @@ export async function handleMcpRequest(request: JsonRpcRequest, bearerToken: str
       error: {
         code: ERROR_CODES.INTERNAL_ERROR,
         message: error instanceof Error ? error.message : 'Internal error',
-        data: error instanceof Error ? error.stack : undefined,
       },
     };
   }
 }
+
+/**
+ * Settle with promise, or reject as soon as signal aborts
+ */
+function untilAborted<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Build a reporter that sends notifications/progress for a request's progressToken
+ */
+function createProgressReporter(
+  progressToken: string | number,
+  sendNotification: (notification: JsonRpcNotification) => void
+): (progress: number, message?: string) => void {
+  return (progress, message) => {
+    sendNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(message !== undefined && { message }),
+      },
+    });
+  };
+}
+
+/**
+ * Handle resources/* requests, mapping resource errors to JSON-RPC errors
+ */
+async function handleResourceRequest(
+  request: JsonRpcRequest,
+  requestId: string | number | null,
+  bearerToken: string,
+  tenant: string
+): Promise<JsonRpcResponse> {
+  const params = request.params as { cursor?: string; uri?: string } | undefined;
+
+  try {
+    if (request.method === 'resources/templates/list') {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: {
+          resourceTemplates: listResourceTemplates(tenant),
+        },
+      };
+    }
+
+    if (request.method === 'resources/list') {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: await listResources(params?.cursor, bearerToken, tenant),
+      };
+    }
+
+    if (!params?.uri) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: 'Missing required parameter: uri',
+        },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      result: await readResource(params.uri, bearerToken, tenant),
+    };
+  } catch (error) {
+    if (error instanceof ResourceNotFoundError || error instanceof DoceboNotFoundError) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: {
+          code: ERROR_CODES.RESOURCE_NOT_FOUND,
+          message: error.message,
+          data: { uri: params?.uri },
+        },
+      };
+    }
+
+    if (error instanceof InvalidResourceParamsError) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: error.message,
+        },
+      };
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Handle MCP JSON-RPC notifications
+ * Notifications carry no id and never produce a response.
+ */
+export async function handleMcpNotification(notification: JsonRpcRequest, options: McpRequestOptions = {}): Promise<void> {
+  switch (notification.method) {
+    case 'notifications/initialized':
+      console.log('[MCP] Client initialized');
+      return;
+
+    case 'notifications/cancelled': {
+      const params = notification.params as { requestId?: string | number; reason?: string } | undefined;
+      const request = params?.requestId !== undefined ? options.inFlightRequests?.get(params.requestId) : undefined;
+
+      // Unknown or already finished requests are ignored, as the spec allows
+      if (request) {
+        console.log('[MCP] Cancelling request', params!.requestId, params!.reason ? `(${params!.reason})` : '');
+        request.abort(new Error(params!.reason ?? 'Request cancelled by the client'));
+      }
+      return;
+    }
+
+    default:
+      console.log('[MCP] Ignoring notification:', notification.method);
+  }
+}
+
+/**
+ * Whether a message is a JSON-RPC request (has a method and an id)
+ */
+export function isJsonRpcRequest(message: unknown): boolean {
+  return isJsonRpcObject(message) && typeof message.method === 'string' && message.id !== undefined;
+}
+
+/**
+ * Handle a single message or a batch (JSON-RPC 2.0 section 6)
+ * Returns one response per request, in order; notifications and client
+ * responses produce none, so the list is empty for notification-only payloads.
+ * Rejects with DoceboAuthExpiredError when Docebo no longer accepts the bearer token.
+ */
+export async function handleMcpMessages(
+  messages: unknown[],
+  bearerToken: string,
+  tenant: string,
+  options: McpRequestOptions = {}
+): Promise<JsonRpcResponse[]> {
+  const responses = await Promise.all(messages.map((message) => handleMcpMessage(message, bearerToken, tenant, options)));
+
+  return responses.filter((response): response is JsonRpcResponse => response !== null);
+}
+
+async function handleMcpMessage(
+  message: unknown,
+  bearerToken: string,
+  tenant: string,
+  options: McpRequestOptions
+): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcObject(message)) {
+    return invalidRequest('Invalid Request: expected a JSON-RPC object');
+  }
+
+  if (typeof message.method !== 'string') {
+    // Responses to server-initiated requests are accepted and ignored
+    if ('result' in message || 'error' in message) {
+      return null;
+    }
+
+    return invalidRequest('Invalid Request: missing method field', message.id);
+  }
+
+  if (message.id === undefined) {
+    await handleMcpNotification(message as unknown as JsonRpcRequest, options);
+    return null;
+  }
+
+  return handleMcpRequest(message as unknown as JsonRpcRequest, bearerToken, tenant, options);
+}
+
+function isJsonRpcObject(message: unknown): message is Record<string, unknown> {
+  return typeof message === 'object' && message !== null && !Array.isArray(message);
+}
+
+function invalidRequest(message: string, id: unknown = null): JsonRpcErrorResponse {
+  return {
+    jsonrpc: '2.0',
+    id: typeof id === 'string' || typeof id === 'number' ? id : null,
+    error: {
+      code: ERROR_CODES.INVALID_REQUEST,
+      message,
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * MCP prompts for common LMS admin workflows
+ * Parameterized templates that walk the model through the existing Docebo tools,
+ * so the same workflow behaves consistently across MCP clients.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+// Shape advertised to clients in prompts/list
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+interface PromptTemplate extends PromptDefinition {
+  render: (args: Record<string, string>) => string;
+}
+
+/**
+ * Thrown for an unknown prompt name or missing required arguments
+ * Mapped to JSON-RPC INVALID_PARAMS by the MCP handler.
+ */
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptArgumentError';
+  }
+}
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'onboard_new_hire',
+    description: 'Onboard a new hire: find the user and enroll them into their mandatory courses',
+    arguments: [
+      { name: 'user', description: 'Username, email or full name of the new hire', required: true },
+      { name: 'courses', description: 'Comma-separated course names or IDs (default: search for onboarding courses)' },
+      { name: 'due_date', description: 'Date the courses must be completed by (yyyy-mm-dd)' },
+    ],
+    render: ({ user, courses, due_date }) => [
+      `Onboard the new hire "${user}" into their mandatory training in Docebo.`,
+      '',
+      `1. Find the user with docebo_list_users (search_text: "${user}"). If several users match, list them and ask me which one to use. If none match, ask me whether to create the user with docebo_create_user.`,
+      courses
+        ? `2. Resolve these courses to course IDs: ${courses}. Use docebo_list_courses (search_text) for any course given by name.`
+        : '2. Use docebo_harmony_search to find the onboarding / new hire courses for this user, and confirm the list with me before enrolling.',
+      `3. Enroll the user in each course with docebo_enroll_user, using assignment_type "mandatory"${due_date ? ` and date_expire_validity "${due_date}"` : ''}.`,
+      '4. Finish with a table of course, course ID and enrollment result (enrolled, waiting list, or failed with the reason).',
+    ].join('\n'),
+  },
+  {
+    name: 'find_overdue_learners',
+    description: 'Find learners in a branch who are overdue on their assigned training',
+    arguments: [
+      { name: 'branch', description: 'Branch (org chart node) name or code', required: true },
+      { name: 'as_of', description: 'Date to measure overdue against (yyyy-mm-dd, default: today)' },
+    ],
+    render: ({ branch, as_of }) => [
+      `Find the learners in the Docebo branch "${branch}" who are overdue on their assigned training as of ${as_of || 'today'}.`,
+      '',
+      `1. Find the branch with docebo_list_branches (search_text: "${branch}"), then list its users with docebo_list_branch_users, paging through every page until has_more_page is false.`,
+      '2. For each user, check their mandatory and required enrollments with docebo_list_enrollments: an enrollment is overdue when it is not completed and its expiration date is before the reference date.',
+      '3. Use docebo_harmony_search if you need to identify which courses are mandatory for this branch.',
+      '4. Report a table of user, course, due date and days overdue, sorted by days overdue, followed by a per-course count.',
+      'Only report what the tools return; say explicitly if some data could not be retrieved.',
+    ].join('\n'),
+  },
+  {
+    name: 'summarize_learning_progress',
+    description: "Summarize a user's learning progress across their enrollments",
+    arguments: [
+      { name: 'user', description: 'Username, email or full name of the learner', required: true },
+      { name: 'period', description: 'Period to focus on, e.g. "this quarter" (default: all time)' },
+    ],
+    render: ({ user, period }) => [
+      `Summarize the learning progress of "${user}" in Docebo${period ? ` for ${period}` : ''}.`,
+      '',
+      `1. Find the user with docebo_list_users (search_text: "${user}"). If several users match, ask me which one to use.`,
+      `2. Get their transcript with docebo_get_user_progress${period ? ' (use completed_from/completed_to for the period)' : ''}, and use docebo_harmony_search for context on the courses involved.`,
+      '3. Summarize: courses completed, in progress and not started; overdue mandatory training; and suggested next courses.',
+      'Keep the summary short enough for a manager to read in a minute.',
+    ].join('\n'),
+  },
+];
+
+/**
+ * Prompt definitions for prompts/list
+ */
+export function listPrompts(): PromptDefinition[] {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({
+    name,
+    description,
+    arguments: args,
+  }));
+}
+
+/**
+ * Render a prompt for prompts/get
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): { description: string; messages: PromptMessage[] } {
+  const prompt = PROMPTS.find((p) => p.name === name);
+
+  if (!prompt) {
+    throw new PromptArgumentError(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter((arg) => arg.required && !args[arg.name])
+    .map((arg) => arg.name);
+
+  if (missing.length > 0) {
+    throw new PromptArgumentError(`Missing required arguments for ${name}: ${missing.join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: prompt.render(args),
+        },
+      },
+    ],
+  };
+}
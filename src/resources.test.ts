@@ -0,0 +1,107 @@
+/**
+ * Unit tests for MCP resources (courses, users, learning plans)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+  buildResourceUri,
+  ResourceNotFoundError,
+  InvalidResourceParamsError,
+} from './resources.js';
+
+vi.mock('./docebo.js', () => ({
+  listCourses: vi.fn(),
+  getCourse: vi.fn(),
+  getUser: vi.fn(),
+  getLearningPlan: vi.fn(),
+}));
+
+import { listCourses, getCourse, getUser, getLearningPlan } from './docebo.js';
+
+describe('resources', () => {
+  const mockBearerToken = 'test-token-123';
+  const mockTenant = 'riccardo-lr-test';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('builds tenant-scoped URIs', () => {
+    expect(buildResourceUri(mockTenant, 'course', 12)).toBe('docebo://riccardo-lr-test/course/12');
+  });
+
+  it('lists templates for courses, users and learning plans', () => {
+    const templates = listResourceTemplates(mockTenant);
+
+    expect(templates.map((t) => t.uriTemplate)).toEqual([
+      'docebo://riccardo-lr-test/course/{id}',
+      'docebo://riccardo-lr-test/user/{id}',
+      'docebo://riccardo-lr-test/learningplan/{id}',
+    ]);
+  });
+
+  it('lists catalog courses with a next-page cursor', async () => {
+    vi.mocked(listCourses).mockResolvedValueOnce({
+      data: {
+        items: [{ id: 7, name: 'Safety 101', code: 'SAF-101' }],
+        total_count: 120,
+        current_page: 2,
+        page_size: 50,
+        has_more_page: true,
+      },
+    });
+
+    const result = await listResources('2', mockBearerToken, mockTenant);
+
+    expect(listCourses).toHaveBeenCalledWith({ page: 2, page_size: 50 }, mockBearerToken, mockTenant);
+    expect(result).toEqual({
+      resources: [
+        {
+          uri: 'docebo://riccardo-lr-test/course/7',
+          name: 'Safety 101',
+          description: 'Course SAF-101',
+          mimeType: 'application/json',
+        },
+      ],
+      nextCursor: '3',
+    });
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(listResources('abc', mockBearerToken, mockTenant)).rejects.toBeInstanceOf(
+      InvalidResourceParamsError
+    );
+  });
+
+  it('reads each resource type with the matching fetcher', async () => {
+    vi.mocked(getCourse).mockResolvedValueOnce({ id: 7, name: 'Safety 101' });
+    vi.mocked(getUser).mockResolvedValueOnce({ user_data: { user_id: 3 } } as any);
+    vi.mocked(getLearningPlan).mockResolvedValueOnce({ id: 9, name: 'Onboarding' });
+
+    const course = await readResource('docebo://riccardo-lr-test/course/7', mockBearerToken, mockTenant);
+    await readResource('docebo://riccardo-lr-test/user/3', mockBearerToken, mockTenant);
+    await readResource('docebo://riccardo-lr-test/learningplan/9', mockBearerToken, mockTenant);
+
+    expect(getCourse).toHaveBeenCalledWith(7, mockBearerToken, mockTenant);
+    expect(getUser).toHaveBeenCalledWith(3, mockBearerToken, mockTenant);
+    expect(getLearningPlan).toHaveBeenCalledWith(9, mockBearerToken, mockTenant);
+    expect(course.contents[0]).toEqual({
+      uri: 'docebo://riccardo-lr-test/course/7',
+      mimeType: 'application/json',
+      text: JSON.stringify({ id: 7, name: 'Safety 101' }, null, 2),
+    });
+  });
+
+  it('rejects unknown URIs and URIs of other tenants', async () => {
+    await expect(readResource('docebo://riccardo-lr-test/badge/1', mockBearerToken, mockTenant)).rejects.toBeInstanceOf(
+      ResourceNotFoundError
+    );
+    await expect(readResource('docebo://other-tenant/course/1', mockBearerToken, mockTenant)).rejects.toThrow(
+      "does not belong to tenant 'riccardo-lr-test'"
+    );
+    expect(getCourse).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * MCP resources for Docebo records
+ * Exposes courses, users and learning plans as docebo://{tenant}/{type}/{id} URIs
+ * so agents can attach records as context instead of calling tools repeatedly.
+ */
+
+import { listCourses, getCourse, getUser, getLearningPlan } from './docebo.js';
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Thrown when a URI does not name a readable resource (MCP error -32002)
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+/**
+ * Thrown for unusable resources/* parameters, e.g. a malformed cursor
+ */
+export class InvalidResourceParamsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResourceParamsError';
+  }
+}
+
+type ResourceType = 'course' | 'user' | 'learningplan';
+
+const MIME_TYPE = 'application/json';
+
+// Courses per resources/list page
+const LIST_PAGE_SIZE = 50;
+
+const URI_PATTERN = /^docebo:\/\/([^/]+)\/(course|user|learningplan)\/(\d+)$/;
+
+const RESOURCE_TYPES: Record<ResourceType, {
+  name: string;
+  description: string;
+  fetch: (id: number, bearerToken: string, tenant: string) => Promise<unknown>;
+}> = {
+  course: {
+    name: 'Docebo course',
+    description: 'Course details (name, code, type, description, settings) by course ID',
+    fetch: getCourse,
+  },
+  user: {
+    name: 'Docebo user',
+    description: 'User profile including additional fields by user ID',
+    fetch: getUser,
+  },
+  learningplan: {
+    name: 'Docebo learning plan',
+    description: 'Learning plan details by learning plan ID',
+    fetch: getLearningPlan,
+  },
+};
+
+/**
+ * Build the URI for a Docebo record
+ */
+export function buildResourceUri(tenant: string, type: ResourceType, id: number): string {
+  return `docebo://${tenant}/${type}/${id}`;
+}
+
+/**
+ * Resource templates for resources/templates/list
+ */
+export function listResourceTemplates(tenant: string): ResourceTemplate[] {
+  return (Object.keys(RESOURCE_TYPES) as ResourceType[]).map((type) => ({
+    uriTemplate: `docebo://${tenant}/${type}/{id}`,
+    name: RESOURCE_TYPES[type].name,
+    description: RESOURCE_TYPES[type].description,
+    mimeType: MIME_TYPE,
+  }));
+}
+
+/**
+ * Concrete resources for resources/list: the tenant's course catalog, paged
+ * The cursor is the next catalog page number.
+ */
+export async function listResources(
+  cursor: string | undefined,
+  bearerToken: string,
+  tenant: string
+): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const page = cursor === undefined ? 1 : Number(cursor);
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new InvalidResourceParamsError(`Invalid cursor: ${cursor}`);
+  }
+
+  const courses = await listCourses({ page, page_size: LIST_PAGE_SIZE }, bearerToken, tenant);
+
+  return {
+    resources: courses.data.items.map((course) => ({
+      uri: buildResourceUri(tenant, 'course', course.id),
+      name: course.name,
+      description: course.code ? `Course ${course.code}` : undefined,
+      mimeType: MIME_TYPE,
+    })),
+    nextCursor: courses.data.has_more_page ? String(page + 1) : undefined,
+  };
+}
+
+/**
+ * Read a resource by URI for resources/read
+ */
+export async function readResource(uri: string, bearerToken: string, tenant: string): Promise<{ contents: ResourceContents[] }> {
+  const match = uri.match(URI_PATTERN);
+
+  if (!match) {
+    throw new ResourceNotFoundError(`Unknown resource URI: ${uri}`);
+  }
+
+  const [, uriTenant, type, id] = match;
+
+  if (uriTenant !== tenant) {
+    throw new ResourceNotFoundError(`Resource ${uri} does not belong to tenant '${tenant}'`);
+  }
+
+  const record = await RESOURCE_TYPES[type as ResourceType].fetch(Number(id), bearerToken, tenant);
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(record, null, 2),
+      },
+    ],
+  };
+}
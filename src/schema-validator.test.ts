@@ -0,0 +1,70 @@
+/**
+ * Unit tests for tool argument schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateArguments, formatValidationIssues, JsonSchema } from './schema-validator.js';
+
+describe('validateArguments', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      user_ids: { type: 'array', items: { type: 'integer' }, minItems: 1 },
+      status: { type: 'string', enum: ['active', 'inactive'] },
+      starts_at: { type: 'string', format: 'date-time' },
+      until: { type: 'string', format: 'date' },
+    },
+    required: ['user_ids'],
+  };
+
+  it('accepts valid arguments', () => {
+    expect(
+      validateArguments(schema, {
+        user_ids: [1, 2],
+        status: 'active',
+        starts_at: '2025-01-31T09:00:00Z',
+        until: '2024-02-29',
+      })
+    ).toEqual([]);
+  });
+
+  it('reports missing required fields', () => {
+    expect(validateArguments(schema, {})).toEqual([{ field: 'user_ids', message: 'is required' }]);
+  });
+
+  it('reports invalid array items with their index', () => {
+    expect(validateArguments(schema, { user_ids: [1, 2.5] })).toEqual([
+      { field: 'user_ids[1]', message: 'must be of type integer, got number' },
+    ]);
+  });
+
+  it('rejects impossible calendar dates', () => {
+    expect(validateArguments(schema, { user_ids: [1], until: '2025-13-01' })).toEqual([
+      { field: 'until', message: 'must be a valid date in yyyy-mm-dd format' },
+    ]);
+  });
+
+  it('rejects non-object arguments', () => {
+    expect(validateArguments(schema, 'nope')).toEqual([
+      { field: '', message: 'must be of type object, got string' },
+    ]);
+  });
+
+  it('rejects unknown fields only when additionalProperties is false', () => {
+    expect(validateArguments(schema, { user_ids: [1], extra: true })).toEqual([]);
+    expect(validateArguments({ ...schema, additionalProperties: false }, { user_ids: [1], extra: true })).toEqual([
+      { field: 'extra', message: 'is not a recognized parameter' },
+    ]);
+  });
+});
+
+describe('formatValidationIssues', () => {
+  it('joins issues with their field names', () => {
+    expect(
+      formatValidationIssues([
+        { field: 'a', message: 'is required' },
+        { field: '', message: 'must be of type object, got string' },
+      ])
+    ).toBe('a: is required; must be of type object, got string');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * JSON Schema validation for tool arguments
+ * Supports the subset of JSON Schema used by tool inputSchemas: type, enum,
+ * required, properties, items, format (date, date-time), min/max bounds and
+ * additionalProperties: false.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  format?: string;
+  properties?: Record<string, unknown>;
+  required?: string[];
+  items?: unknown;
+  additionalProperties?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ValidationIssue {
+  field: string; // Dotted path to the offending value, e.g. "user_ids[2]"
+  message: string;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Validate tool arguments against a schema
+ * Returns an empty list when the arguments are valid.
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(schema, args, '', issues);
+  return issues;
+}
+
+/**
+ * Render validation issues as a single human-readable message
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message)).join('; ');
+}
+
+function validateValue(schema: JsonSchema, value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!allowed.some((type) => matchesType(type, value))) {
+      issues.push({ field, message: `must be of type ${allowed.join(' or ')}, got ${describeType(value)}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({ field, message: `must be one of: ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, field, issues);
+  } else if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field, message: `must be <= ${schema.maximum}` });
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field, message: `must contain at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items as JsonSchema, item, `${field}[${index}]`, issues));
+    }
+  } else if (isPlainObject(value)) {
+    validateObject(schema, value, field, issues);
+  }
+}
+
+function validateString(schema: JsonSchema, value: string, field: string, issues: ValidationIssue[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ field, message: `must be at least ${schema.minLength} character(s)` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ field, message: `must be at most ${schema.maxLength} character(s)` });
+  }
+
+  if (schema.format === 'date' && !isValidDate(value)) {
+    issues.push({ field, message: 'must be a valid date in yyyy-mm-dd format' });
+  } else if (schema.format === 'date-time' && !DATE_TIME_PATTERN.test(value)) {
+    issues.push({ field, message: 'must be a valid date-time (e.g. 2025-01-31T09:00:00Z)' });
+  }
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, unknown>, field: string, issues: ValidationIssue[]): void {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined || value[key] === null) {
+      issues.push({ field: joinField(field, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) continue;
+
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      validateValue(propertySchema, propertyValue, joinField(field, key), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ field: joinField(field, key), message: 'is not a recognized parameter' });
+    }
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function joinField(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
@@ -5,9 +5,13 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import { appConfig } from './config.js';
-import { handleMcpRequest } from './mcp.js';
 import { handleAuthorize, handleToken, decodeState } from './oauth-proxy.js';
 import { initializeStorage, registerVirtualClient } from './virtual-clients.js';
+import { loadToolPacks, configureToolTimeout } from './tool-registry.js';
+import { handleMcpPost, handleMcpStream, handleMcpDelete, acceptsEventStream, configurePublicUrl, authChallenge } from './streamable-http.js';
+import { startSessionSweeper, configureMaxSessions } from './sessions.js';
+import { startConversationSweeper } from './harmony-conversations.js';
+import { configureDoceboClient } from './docebo-client.js';
 
 const app = express();
 
@@ -32,8 +36,9 @@ function validateOrigin(req: Request, res: Response, next: NextFunction): void {
 
     // Set permissive CORS headers for local dev (including MCP-specific headers)
     res.setHeader('Access-Control-Allow-Origin', origin || '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS, HEAD');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS, HEAD');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id, last-event-id, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
 
     // Handle OPTIONS preflight
     if (req.method === 'OPTIONS') {
@@ -48,13 +53,15 @@ function validateOrigin(req: Request, res: Response, next: NextFunction): void {
   // Production mode: Check allowed origins
   if (origin && appConfig.server.allowedOrigins.includes(origin)) {
     res.setHeader('Access-Control-Allow-Origin', origin);
-    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS, HEAD');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS, HEAD');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id, last-event-id, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
   } else if (appConfig.server.allowedOrigins.includes('*')) {
     // Allow all if configured
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS, HEAD');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS, HEAD');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id, last-event-id, ngrok-skip-browser-warning');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
   }
 
   // Handle OPTIONS preflight
@@ -74,6 +81,8 @@ function extractBearerToken(req: Request, res: Response, next: NextFunction): vo
   const authHeader = req.headers.authorization;
 
   if (!authHeader) {
+    // Points clients at the resource metadata to start authorization
+    res.setHeader('WWW-Authenticate', authChallenge(req.params.tenant));
     res.status(401).json({
       error: 'Unauthorized',
       message: 'Authorization header is required',
@@ -84,6 +93,7 @@ function extractBearerToken(req: Request, res: Response, next: NextFunction): vo
   // Expected format: "Bearer <token>"
   const match = authHeader.match(/^Bearer\s+(.+)$/i);
   if (!match) {
+    res.setHeader('WWW-Authenticate', authChallenge(req.params.tenant));
     res.status(401).json({
       error: 'Unauthorized',
       message: 'Invalid Authorization format. Expected: Bearer <token>',
@@ -501,6 +511,18 @@ app.head('/mcp/:tenant', validateOrigin, (_req: Request, res: Response) => {
   res.status(200).end();
 });
 
+/**
+ * GET endpoint for MCP - server-to-client SSE stream (Streamable HTTP)
+ * Only handles clients asking for text/event-stream; others get endpoint information below
+ */
+app.get(
+  '/mcp/:tenant',
+  validateOrigin,
+  (req: Request, _res: Response, next: NextFunction) => (acceptsEventStream(req) ? next() : next('route')),
+  extractBearerToken,
+  handleMcpStream
+);
+
 /**
  * GET endpoint for MCP - return endpoint information
  */
@@ -514,6 +536,8 @@ app.get('/mcp/:tenant', validateOrigin, (req: Request, res: Response) => {
     tenant: tenant,
     endpoints: {
       mcp: `POST ${baseUrl}`,
+      mcp_stream: `GET ${baseUrl} (Accept: text/event-stream)`,
+      mcp_terminate: `DELETE ${baseUrl}`,
       oauth_authorization: `GET ${baseUrl}/oauth2/authorize`,
       oauth_token: `POST ${baseUrl}/oauth2/token`,
       oauth_discovery: `GET ${baseUrl}/.well-known/oauth-authorization-server`,
@@ -523,48 +547,22 @@ app.get('/mcp/:tenant', validateOrigin, (req: Request, res: Response) => {
 });
 
 /**
- * MCP JSON-RPC endpoint - Tenant-specific
+ * MCP JSON-RPC endpoint - Tenant-specific (Streamable HTTP)
  * Path: /mcp/:tenant
- * Requires: Authorization: Bearer <token>
+ * Requires: Authorization: Bearer <token>, and Mcp-Session-Id after initialize
  */
 app.post('/mcp/:tenant', validateOrigin, extractBearerToken, async (req: Request, res: Response) => {
   try {
-    const request = req.body;
-    const tenant = req.params.tenant;
-
-    // Validate tenant parameter
-    if (!tenant) {
-      res.status(400).json({
-        jsonrpc: '2.0',
-        id: null,
-        error: {
-          code: -32600,
-          message: 'Missing required path parameter: tenant',
-        },
-      });
-      return;
-    }
+    await handleMcpPost(req, res);
+  } catch (error) {
+    console.error('[Server] Unexpected error:', error);
 
-    // Validate JSON-RPC structure
-    if (!request || typeof request !== 'object' || !request.method) {
-      res.status(400).json({
-        jsonrpc: '2.0',
-        id: null,
-        error: {
-          code: -32600,
-          message: 'Invalid Request: missing method field',
-        },
-      });
+    // An SSE response has already started; just close it
+    if (res.headersSent) {
+      res.end();
       return;
     }
 
-    // Handle the request with the bearer token and tenant
-    const response = await handleMcpRequest(request, res.locals.bearerToken, tenant);
-
-    res.json(response);
-  } catch (error) {
-    console.error('[Server] Unexpected error:', error);
-
     res.status(500).json({
       jsonrpc: '2.0',
       id: null,
@@ -576,6 +574,13 @@ app.post('/mcp/:tenant', validateOrigin, extractBearerToken, async (req: Request
   }
 });
 
+/**
+ * MCP session termination - Tenant-specific
+ * Path: /mcp/:tenant
+ * Requires: Authorization: Bearer <token>, Mcp-Session-Id
+ */
+app.delete('/mcp/:tenant', validateOrigin, extractBearerToken, handleMcpDelete);
+
 /**
  * 404 handler
  */
@@ -590,6 +595,8 @@ app.use((_req: Request, res: Response) => {
       authorize: 'GET /mcp/<tenant>/oauth2/authorize',
       token: 'POST /mcp/<tenant>/oauth2/token',
       mcp: 'POST /mcp/<tenant>',
+      mcp_stream: 'GET /mcp/<tenant> (Accept: text/event-stream)',
+      mcp_terminate: 'DELETE /mcp/<tenant>',
     },
   });
 });
@@ -614,6 +621,28 @@ const port = appConfig.server.port;
 // Initialize virtual client storage
 initializeStorage();
 
+// Expire idle MCP sessions
+startSessionSweeper(appConfig.mcp.sessionTtlMinutes * 60_000);
+configureMaxSessions(appConfig.mcp.maxSessions);
+
+// Expire idle Harmony Search conversations
+startConversationSweeper(appConfig.mcp.harmonyConversationTtlMinutes * 60_000);
+
+// Retry policy and timeout of Docebo API calls, and the default tool call time limit
+configureDoceboClient({
+  maxRetries: appConfig.docebo.maxRetries,
+  baseDelayMs: appConfig.docebo.retryBaseDelayMs,
+  maxDelayMs: appConfig.docebo.retryMaxDelayMs,
+  timeoutMs: appConfig.docebo.requestTimeoutMs,
+});
+configureToolTimeout(appConfig.mcp.toolTimeoutSeconds * 1000);
+
+// Advertised in WWW-Authenticate challenges
+configurePublicUrl(appConfig.server.publicUrl);
+
+// Load third-party tool packs before accepting requests
+await loadToolPacks(appConfig.mcp.toolPacks);
+
 app.listen(port, () => {
   console.log('='.repeat(60));
   console.log(`[Server] Docebo MCP OAuth2 Proxy Server`);
@@ -627,6 +656,7 @@ app.listen(port, () => {
   console.log(`  Authorize:       GET  /mcp/<tenant>/oauth2/authorize`);
   console.log(`  Token:           POST /mcp/<tenant>/oauth2/token`);
   console.log(`  MCP:             POST /mcp/<tenant>`);
+  console.log(`  MCP Stream:      GET  /mcp/<tenant> (SSE), DELETE /mcp/<tenant>`);
   console.log('='.repeat(60));
   console.log('[Server] Example for tenant "riccardo-lr-test":');
   console.log(`  ${appConfig.server.publicUrl}/mcp/riccardo-lr-test`);
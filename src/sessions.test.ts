@@ -0,0 +1,155 @@
+/**
+ * Tests for MCP session management
+ * Verifies session lifecycle, event logging and Last-Event-ID replay
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createSession,
+  getSession,
+  deleteSession,
+  recordEvent,
+  getEventsAfter,
+  openStream,
+  isStreamOpen,
+  sendOnStream,
+  endStream,
+  sweepExpiredSessions,
+  clearSessions,
+  configureMaxSessions,
+  STANDALONE_STREAM_ID,
+} from './sessions.js';
+
+describe('sessions', () => {
+  beforeEach(() => {
+    clearSessions();
+    configureMaxSessions(1000);
+  });
+
+  it('ends the least recently active session of a caller holding too many', () => {
+    const first = createSession('acme', 'owner-a')!;
+    first.lastActivityAt = 0;
+    for (let i = 0; i < 9; i++) createSession('acme', 'owner-a');
+
+    createSession('acme', 'owner-a');
+
+    expect(getSession(first.id)).toBeUndefined();
+  });
+
+  it('refuses new sessions above the configured maximum', () => {
+    configureMaxSessions(2);
+    createSession('acme', 'owner-a');
+    createSession('acme', 'owner-b');
+
+    expect(createSession('acme', 'owner-c')).toBeNull();
+  });
+
+  it('creates sessions bound to a tenant', () => {
+    const session = createSession('acme', 'owner-a')!;
+
+    expect(session.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(getSession(session.id)?.tenant).toBe('acme');
+  });
+
+  it('deletes sessions and closes their listeners', () => {
+    const session = createSession('acme', 'owner-a')!;
+    const end = vi.fn();
+    session.listeners.set(STANDALONE_STREAM_ID, { send: vi.fn(), end });
+
+    expect(deleteSession(session.id)).toBe(true);
+    expect(getSession(session.id)).toBeUndefined();
+    expect(end).toHaveBeenCalled();
+    expect(deleteSession(session.id)).toBe(false);
+  });
+
+  it('aborts running tool calls when the session is deleted', () => {
+    const session = createSession('acme', 'owner-a')!;
+    const request = new AbortController();
+    session.inFlight.set(7, request);
+
+    deleteSession(session.id);
+
+    expect(request.signal.aborted).toBe(true);
+  });
+
+  it('assigns increasing event IDs', () => {
+    const session = createSession('acme', 'owner-a')!;
+
+    const first = recordEvent(session, 'stream-a', { n: 1 });
+    const second = recordEvent(session, 'stream-b', { n: 2 });
+
+    expect(first.id).toBe('1');
+    expect(second.id).toBe('2');
+    expect(second.data).toBe('{"n":2}');
+  });
+
+  it('replays only later events from the same stream', () => {
+    const session = createSession('acme', 'owner-a')!;
+    recordEvent(session, 'stream-a', { n: 1 });
+    recordEvent(session, 'stream-b', { n: 2 });
+    recordEvent(session, 'stream-a', { n: 3 });
+
+    const replay = getEventsAfter(session, '1');
+
+    expect(replay?.streamId).toBe('stream-a');
+    expect(replay?.events.map((e) => e.id)).toEqual(['3']);
+    expect(getEventsAfter(session, '99')).toBeNull();
+  });
+
+  it('delivers stream events to the connected listener until the stream ends', () => {
+    const session = createSession('acme', 'owner-a')!;
+    const listener = { send: vi.fn(), end: vi.fn() };
+    openStream(session, 'stream-a');
+    session.listeners.set('stream-a', listener);
+
+    const event = sendOnStream(session, 'stream-a', { n: 1 });
+    endStream(session, 'stream-a');
+
+    expect(listener.send).toHaveBeenCalledWith(event);
+    expect(listener.end).toHaveBeenCalled();
+    expect(isStreamOpen(session, 'stream-a')).toBe(false);
+    expect(isStreamOpen(session, STANDALONE_STREAM_ID)).toBe(true);
+  });
+
+  it('bounds the event log by total size', () => {
+    const session = createSession('acme', 'owner-a')!;
+    const large = 'x'.repeat(2 * 1024 * 1024);
+
+    recordEvent(session, 'stream-a', { large });
+    recordEvent(session, 'stream-a', { large });
+    recordEvent(session, 'stream-a', { large });
+
+    expect(session.events.map((e) => e.id)).toEqual(['2', '3']);
+    expect(session.eventBytes).toBeLessThanOrEqual(5 * 1024 * 1024);
+  });
+
+  it('drops the events of a delivered stream shortly after it ends', () => {
+    vi.useFakeTimers();
+    const session = createSession('acme', 'owner-a')!;
+    openStream(session, 'stream-a');
+    session.listeners.set('stream-a', { send: vi.fn(), end: vi.fn() });
+    sendOnStream(session, 'stream-a', { n: 1 });
+    openStream(session, 'stream-b');
+    sendOnStream(session, 'stream-b', { n: 2 });
+
+    endStream(session, 'stream-a');
+    endStream(session, 'stream-b'); // No listener: kept for resumption
+    vi.advanceTimersByTime(30_000);
+    vi.useRealTimers();
+
+    expect(session.events.map((e) => e.streamId)).toEqual(['stream-b']);
+    expect(session.eventBytes).toBe(Buffer.byteLength('{"n":2}'));
+  });
+
+  it('expires idle sessions without connected streams', () => {
+    const idle = createSession('acme', 'owner-a')!;
+    const streaming = createSession('acme', 'owner-a')!;
+    streaming.listeners.set(STANDALONE_STREAM_ID, { send: vi.fn(), end: vi.fn() });
+
+    const removed = sweepExpiredSessions(1000, Date.now() + 5000);
+
+    expect(removed).toBe(1);
+    expect(getSession(idle.id)).toBeUndefined();
+    expect(getSession(streaming.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * MCP session management for the Streamable HTTP transport
+ * Sessions are issued on initialize (Mcp-Session-Id header), bound to a tenant
+ * and to the caller that created them, and keep a bounded log of SSE events so clients can resume with Last-Event-ID.
+ * Storage is in-memory: sessions do not survive a restart or span instances.
+ */
+
+import * as crypto from 'crypto';
+
+// Stream ID for the server-to-client stream opened with GET
+// The server sends no unsolicited messages, so this stream only carries keepalives;
+// Last-Event-ID replay applies to the POST response streams.
+export const STANDALONE_STREAM_ID = 'standalone';
+
+// Events kept per session for Last-Event-ID replay, by number and by total size
+const MAX_EVENTS_PER_SESSION = 500;
+const MAX_EVENT_BYTES_PER_SESSION = 5 * 1024 * 1024;
+
+// How long events of a finished, delivered POST stream stay available for replay
+const DELIVERED_STREAM_RETENTION_MS = 30_000;
+
+// Sessions one caller may hold; creating another ends its least recently active one
+const MAX_SESSIONS_PER_OWNER = 10;
+
+export interface SseEvent {
+  id: string;
+  streamId: string;
+  data: string; // Serialized JSON-RPC message
+}
+
+// A connected HTTP response currently delivering a stream's events
+export interface SseListener {
+  send: (event: SseEvent) => void;
+  end: () => void;
+}
+
+export interface McpSession {
+  id: string;
+  tenant: string;
+  owner: string; // Identity of the caller that created the session (see tokenIdentity)
+  protocolVersion?: string; // Negotiated during initialize
+  createdAt: number;
+  lastActivityAt: number;
+  events: SseEvent[];
+  eventBytes: number; // Total size of the data of events
+  nextEventId: number;
+  openStreams: Set<string>; // POST streams still producing events
+  listeners: Map<string, SseListener>; // Connected responses by stream ID
+  inFlight: Map<string | number, AbortController>; // Running tool calls by request ID
+}
+
+const sessions = new Map<string, McpSession>();
+let sweeper: NodeJS.Timeout | undefined;
+
+let maxSessions = 1000;
+
+/**
+ * Set the number of live sessions above which initialize is refused
+ */
+export function configureMaxSessions(max: number): void {
+  maxSessions = max;
+}
+
+/**
+ * Create a new session for a tenant and caller
+ * Returns null when the server holds the maximum number of sessions.
+ */
+export function createSession(tenant: string, owner: string): McpSession | null {
+  const owned = [...sessions.values()].filter((session) => session.owner === owner);
+
+  if (owned.length >= MAX_SESSIONS_PER_OWNER) {
+    const leastRecent = owned.reduce((a, b) => (b.lastActivityAt < a.lastActivityAt ? b : a));
+    deleteSession(leastRecent.id);
+  }
+
+  if (sessions.size >= maxSessions) {
+    console.warn(`[Sessions] Refusing new session for tenant ${tenant}: ${sessions.size} sessions open`);
+    return null;
+  }
+
+  const now = Date.now();
+  const session: McpSession = {
+    id: crypto.randomUUID(),
+    tenant,
+    owner,
+    createdAt: now,
+    lastActivityAt: now,
+    events: [],
+    eventBytes: 0,
+    nextEventId: 1,
+    openStreams: new Set(),
+    listeners: new Map(),
+    inFlight: new Map(),
+  };
+
+  sessions.set(session.id, session);
+  console.log(`[Sessions] Created session ${session.id} for tenant: ${tenant}`);
+
+  return session;
+}
+
+/**
+ * Look up a session, marking it as active
+ */
+export function getSession(sessionId: string): McpSession | undefined {
+  const session = sessions.get(sessionId);
+
+  if (session) {
+    session.lastActivityAt = Date.now();
+  }
+
+  return session;
+}
+
+/**
+ * Terminate a session. Returns false if it did not exist.
+ */
+export function deleteSession(sessionId: string): boolean {
+  const session = sessions.get(sessionId);
+
+  if (!session) {
+    return false;
+  }
+
+  closeListeners(session);
+  for (const request of session.inFlight.values()) {
+    request.abort(new Error('Session terminated'));
+  }
+  sessions.delete(sessionId);
+  console.log(`[Sessions] Terminated session ${sessionId}`);
+
+  return true;
+}
+
+/**
+ * Append a message to a session's event log and assign it an event ID
+ * The oldest events are dropped to keep the log within its size limits.
+ */
+export function recordEvent(session: McpSession, streamId: string, message: unknown): SseEvent {
+  const event: SseEvent = {
+    id: String(session.nextEventId++),
+    streamId,
+    data: JSON.stringify(message),
+  };
+
+  session.events.push(event);
+  session.eventBytes += Buffer.byteLength(event.data);
+
+  while (
+    session.events.length > 1 &&
+    (session.events.length > MAX_EVENTS_PER_SESSION || session.eventBytes > MAX_EVENT_BYTES_PER_SESSION)
+  ) {
+    session.eventBytes -= Buffer.byteLength(session.events.shift()!.data);
+  }
+
+  return event;
+}
+
+/**
+ * Remove the events of a stream from the log
+ */
+function dropStreamEvents(session: McpSession, streamId: string): void {
+  session.events = session.events.filter((event) => event.streamId !== streamId);
+  session.eventBytes = session.events.reduce((bytes, event) => bytes + Buffer.byteLength(event.data), 0);
+}
+
+/**
+ * Events recorded on the same stream after the given event ID
+ * Returns null when the event is unknown (expired from the log or never issued).
+ */
+export function getEventsAfter(session: McpSession, lastEventId: string): { streamId: string; events: SseEvent[] } | null {
+  const index = session.events.findIndex((event) => event.id === lastEventId);
+
+  if (index === -1) {
+    return null;
+  }
+
+  const { streamId } = session.events[index];
+
+  return {
+    streamId,
+    events: session.events.slice(index + 1).filter((event) => event.streamId === streamId),
+  };
+}
+
+/**
+ * Mark a POST stream as producing events until endStream is called
+ */
+export function openStream(session: McpSession, streamId: string): void {
+  session.openStreams.add(streamId);
+}
+
+/**
+ * Whether a stream can still produce events (the standalone stream always can)
+ */
+export function isStreamOpen(session: McpSession, streamId: string): boolean {
+  return streamId === STANDALONE_STREAM_ID || session.openStreams.has(streamId);
+}
+
+/**
+ * Record a message on a stream and deliver it to the connected listener, if any
+ * Messages sent while the client is disconnected are replayed on resumption.
+ */
+export function sendOnStream(session: McpSession, streamId: string, message: unknown): SseEvent {
+  const event = recordEvent(session, streamId, message);
+  session.listeners.get(streamId)?.send(event);
+  return event;
+}
+
+/**
+ * Finish a POST stream, closing its connected listener
+ * When a listener received the whole stream, its events are dropped from the log
+ * shortly after; otherwise they stay for the client to resume.
+ */
+export function endStream(session: McpSession, streamId: string): void {
+  session.openStreams.delete(streamId);
+
+  const listener = session.listeners.get(streamId);
+  session.listeners.delete(streamId);
+
+  if (listener) {
+    listener.end();
+    setTimeout(() => dropStreamEvents(session, streamId), DELIVERED_STREAM_RETENTION_MS).unref();
+  }
+}
+
+function closeListeners(session: McpSession): void {
+  for (const listener of session.listeners.values()) {
+    listener.end();
+  }
+  session.listeners.clear();
+  session.openStreams.clear();
+}
+
+/**
+ * Remove sessions idle for longer than ttlMs
+ * Sessions with a connected stream are kept alive.
+ */
+export function sweepExpiredSessions(ttlMs: number, now: number = Date.now()): number {
+  let removed = 0;
+
+  for (const [id, session] of sessions) {
+    if (session.listeners.size === 0 && now - session.lastActivityAt > ttlMs) {
+      closeListeners(session);
+      sessions.delete(id);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[Sessions] Expired ${removed} idle session(s)`);
+  }
+
+  return removed;
+}
+
+/**
+ * Periodically expire idle sessions
+ */
+export function startSessionSweeper(ttlMs: number): void {
+  stopSessionSweeper();
+  sweeper = setInterval(() => sweepExpiredSessions(ttlMs), Math.min(ttlMs, 60_000));
+  sweeper.unref();
+}
+
+export function stopSessionSweeper(): void {
+  if (sweeper) {
+    clearInterval(sweeper);
+    sweeper = undefined;
+  }
+}
+
+/**
+ * Remove all sessions (for tests)
+ */
+export function clearSessions(): void {
+  sessions.clear();
+}
@@ -0,0 +1,423 @@
+/**
+ * Tests for the MCP Streamable HTTP transport
+ * Verifies session issuance, JSON vs SSE responses, GET streams and DELETE
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { handleMcpPost, handleMcpStream, handleMcpDelete } from './streamable-http.js';
+import { createSession, getSession, clearSessions, recordEvent, STANDALONE_STREAM_ID } from './sessions.js';
+import { handleMcpMessages } from './mcp.js';
+import { DoceboAuthExpiredError } from './docebo-errors.js';
+import { tokenIdentity } from './harmony-auth-cache.js';
+
+// Caller identity of the mock requests' bearer token
+const OWNER = tokenIdentity('test-token');
+
+vi.mock('./mcp.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./mcp.js')>()),
+  handleMcpMessages: vi.fn(),
+}));
+
+// Helper to create mock Request
+function createMockRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    query: {},
+    body: {},
+    params: { tenant: 'acme' },
+    headers: {},
+    ...overrides,
+  } as Request;
+}
+
+// Helper to create mock Response that records headers, writes and close handlers
+function createMockResponse() {
+  const headers: Record<string, string> = {};
+  const writes: string[] = [];
+  const closeHandlers: Array<() => void> = [];
+  const res = {
+    locals: { bearerToken: 'test-token' },
+    headersSent: false,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn((name: string, value: string) => {
+      headers[name] = value;
+    }),
+    removeHeader: vi.fn((name: string) => {
+      delete headers[name];
+    }),
+    flushHeaders: vi.fn(() => {
+      res.headersSent = true;
+    }),
+    write: vi.fn((chunk: string) => {
+      writes.push(chunk);
+      return true;
+    }),
+    on: vi.fn((event: string, handler: () => void) => {
+      if (event === 'close') closeHandlers.push(handler);
+    }),
+  };
+  return {
+    res: res as unknown as Response,
+    headers,
+    writes,
+    close: () => closeHandlers.forEach((handler) => handler()),
+  };
+}
+
+describe('handleMcpPost', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSessions();
+  });
+
+  it('issues Mcp-Session-Id on initialize', async () => {
+    const initializeResponse = { jsonrpc: '2.0' as const, id: 1, result: { protocolVersion: '2025-06-18' } };
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce([initializeResponse]);
+    const req = createMockRequest({ body: { jsonrpc: '2.0', id: 1, method: 'initialize' } });
+    const { res, headers } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(headers['Mcp-Session-Id']).toBeDefined();
+    expect(getSession(headers['Mcp-Session-Id'])?.tenant).toBe('acme');
+    expect(getSession(headers['Mcp-Session-Id'])?.protocolVersion).toBe('2025-06-18');
+    expect(res.json).toHaveBeenCalledWith(initializeResponse);
+  });
+
+  it('drops the session when initialize fails', async () => {
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce([{
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32600, message: 'Invalid JSON-RPC version. Must be "2.0"' },
+    }]);
+    const req = createMockRequest({ body: { jsonrpc: '1.0', id: 1, method: 'initialize' } });
+    const { res, headers } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(headers['Mcp-Session-Id']).toBeUndefined();
+  });
+
+  it('requires a session header after initialize', async () => {
+    const req = createMockRequest({ body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(handleMcpMessages).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown sessions or sessions of another tenant', async () => {
+    const session = createSession('other-tenant', OWNER)!;
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      headers: { 'mcp-session-id': session.id },
+    });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('returns 404 to another caller of the same tenant', async () => {
+    const session = createSession('acme', tokenIdentity('someone-else'))!;
+    recordEvent(session, 'stream-1', { jsonrpc: '2.0', id: 1, result: {} });
+    const headers = { 'mcp-session-id': session.id, accept: 'text/event-stream', 'last-event-id': '1' };
+
+    const post = createMockResponse();
+    await handleMcpPost(createMockRequest({ body: { jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers }), post.res);
+    const stream = createMockResponse();
+    handleMcpStream(createMockRequest({ headers }), stream.res);
+    const del = createMockResponse();
+    handleMcpDelete(createMockRequest({ headers }), del.res);
+
+    for (const { res } of [post, stream, del]) {
+      expect(res.status).toHaveBeenCalledWith(404);
+    }
+    expect(stream.writes).toEqual([]);
+    expect(getSession(session.id)).toBeDefined();
+  });
+
+  it('rejects a MCP-Protocol-Version header that differs from the negotiated version', async () => {
+    const session = createSession('acme', OWNER)!;
+    session.protocolVersion = '2025-06-18';
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      headers: { 'mcp-session-id': session.id, 'mcp-protocol-version': '2025-03-26' },
+    });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(vi.mocked(res.json).mock.calls[0][0].error.message).toContain(
+      'does not match the version negotiated for this session (2025-06-18)'
+    );
+    expect(handleMcpMessages).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unsupported MCP-Protocol-Version header', async () => {
+    const session = createSession('acme', OWNER)!;
+    session.protocolVersion = '2025-06-18';
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      headers: { 'mcp-session-id': session.id, 'mcp-protocol-version': '1999-01-01' },
+    });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(vi.mocked(res.json).mock.calls[0][0].error.message).toContain('Unsupported MCP-Protocol-Version 1999-01-01');
+  });
+
+  it('streams tool calls as SSE when the client accepts it', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce([{ jsonrpc: '2.0', id: 3, result: { content: [] } }]);
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'x' } },
+      headers: { 'mcp-session-id': session.id, accept: 'application/json, text/event-stream' },
+    });
+    const { res, headers, writes } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(headers['Content-Type']).toBe('text/event-stream');
+    expect(writes).toEqual(['id: 1\nevent: message\ndata: {"jsonrpc":"2.0","id":3,"result":{"content":[]}}\n\n']);
+    expect(res.end).toHaveBeenCalled();
+    expect(res.json).not.toHaveBeenCalled();
+  });
+
+  it('sends request notifications on the response stream before the result', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockImplementationOnce(async (_messages, _token, _tenant, options) => {
+      options?.sendNotification?.({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 't', progress: 1 },
+      });
+      return [{ jsonrpc: '2.0', id: 3, result: { content: [] } }];
+    });
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'x' } },
+      headers: { 'mcp-session-id': session.id, accept: 'application/json, text/event-stream' },
+    });
+    const { res, writes } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(writes).toHaveLength(2);
+    expect(writes[0]).toContain('"method":"notifications/progress"');
+    expect(writes[1]).toContain('"id":3');
+  });
+
+  it('answers non-tool requests with JSON when the client accepts both', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce([{ jsonrpc: '2.0', id: 4, result: { tools: [] } }]);
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 4, method: 'tools/list' },
+      headers: { 'mcp-session-id': session.id, accept: 'application/json, text/event-stream' },
+    });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 4, result: { tools: [] } });
+  });
+});
+
+describe('handleMcpPost - expired Docebo token', () => {
+  const expired = new DoceboAuthExpiredError('Docebo API error: 401 Unauthorized - ');
+  const challenge = 'Bearer error="invalid_token", resource_metadata="/mcp/acme/.well-known/oauth-protected-resource"';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSessions();
+  });
+
+  it('answers 401 with a WWW-Authenticate challenge', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockRejectedValueOnce(expired);
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 5, method: 'resources/read', params: { uri: 'docebo://courses/1' } },
+      headers: { 'mcp-session-id': session.id },
+    });
+    const { res, headers } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(headers['WWW-Authenticate']).toBe(challenge);
+  });
+
+  it('answers 401 instead of a stream when nothing was streamed yet', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockRejectedValueOnce(expired);
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'x' } },
+      headers: { 'mcp-session-id': session.id, accept: 'application/json, text/event-stream' },
+    });
+    const { res, headers, writes } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(headers['WWW-Authenticate']).toBe(challenge);
+    expect(headers['Content-Type']).toBeUndefined();
+    expect(writes).toEqual([]);
+    expect(session.listeners.size).toBe(0);
+  });
+
+  it('reports the error on the stream once it has started', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockImplementationOnce(async (_messages, _token, _tenant, options) => {
+      options?.sendNotification?.({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress: 1 } });
+      throw expired;
+    });
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'x' } },
+      headers: { 'mcp-session-id': session.id, accept: 'application/json, text/event-stream' },
+    });
+    const { res, writes } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(writes).toHaveLength(2);
+    expect(writes[1]).toContain('"id":7,"error"');
+    expect(res.end).toHaveBeenCalled();
+  });
+});
+
+describe('handleMcpPost - batches and notifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSessions();
+  });
+
+  it('answers a batch with an array of responses', async () => {
+    const session = createSession('acme', OWNER)!;
+    const responses = [
+      { jsonrpc: '2.0' as const, id: 1, result: { tools: [] } },
+      { jsonrpc: '2.0' as const, id: 2, result: {} },
+    ];
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce(responses);
+    const body = [
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'ping' },
+    ];
+    const req = createMockRequest({ body, headers: { 'mcp-session-id': session.id } });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(handleMcpMessages).toHaveBeenCalledWith(body, 'test-token', 'acme', { inFlightRequests: session.inFlight });
+    expect(res.json).toHaveBeenCalledWith(responses);
+  });
+
+  it('returns 202 Accepted for notification-only payloads', async () => {
+    const session = createSession('acme', OWNER)!;
+    vi.mocked(handleMcpMessages).mockResolvedValueOnce([]);
+    const req = createMockRequest({
+      body: { jsonrpc: '2.0', method: 'notifications/initialized' },
+      headers: { 'mcp-session-id': session.id },
+    });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(res.end).toHaveBeenCalled();
+    expect(res.json).not.toHaveBeenCalled();
+  });
+
+  it('rejects an empty batch', async () => {
+    const req = createMockRequest({ body: [] });
+    const { res } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('rejects initialize inside a batch', async () => {
+    const req = createMockRequest({
+      body: [
+        { jsonrpc: '2.0', id: 1, method: 'initialize' },
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      ],
+    });
+    const { res, headers } = createMockResponse();
+
+    await handleMcpPost(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(headers['Mcp-Session-Id']).toBeUndefined();
+  });
+});
+
+describe('handleMcpStream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSessions();
+  });
+
+  it('opens the standalone stream and rejects a second one', () => {
+    const session = createSession('acme', OWNER)!;
+    const headers = { 'mcp-session-id': session.id, accept: 'text/event-stream' };
+    const first = createMockResponse();
+    const second = createMockResponse();
+
+    handleMcpStream(createMockRequest({ headers }), first.res);
+    handleMcpStream(createMockRequest({ headers }), second.res);
+
+    expect(session.listeners.has(STANDALONE_STREAM_ID)).toBe(true);
+    expect(second.res.status).toHaveBeenCalledWith(409);
+
+    first.close();
+    expect(session.listeners.has(STANDALONE_STREAM_ID)).toBe(false);
+  });
+
+  it('replays a finished POST stream after Last-Event-ID and closes', () => {
+    const session = createSession('acme', OWNER)!;
+    recordEvent(session, 'post-stream', { n: 1 });
+    recordEvent(session, 'post-stream', { n: 2 });
+    const { res, writes } = createMockResponse();
+
+    handleMcpStream(
+      createMockRequest({ headers: { 'mcp-session-id': session.id, 'last-event-id': '1' } }),
+      res
+    );
+
+    expect(writes).toEqual(['id: 2\nevent: message\ndata: {"n":2}\n\n']);
+    expect(res.end).toHaveBeenCalled();
+  });
+});
+
+describe('handleMcpDelete', () => {
+  beforeEach(() => {
+    clearSessions();
+  });
+
+  it('terminates the session', () => {
+    const session = createSession('acme', OWNER)!;
+    const { res } = createMockResponse();
+
+    handleMcpDelete(createMockRequest({ headers: { 'mcp-session-id': session.id } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(204);
+    expect(getSession(session.id)).toBeUndefined();
+  });
+
+  it('returns 404 for an unknown session', () => {
+    const { res } = createMockResponse();
+
+    handleMcpDelete(createMockRequest({ headers: { 'mcp-session-id': 'missing' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
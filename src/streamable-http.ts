@@ -0,0 +1,386 @@
+/**
+ * MCP Streamable HTTP transport
+ * POST /mcp/:tenant delivers client messages and answers with JSON or an SSE stream,
+ * GET opens the server-to-client SSE stream (or resumes one with Last-Event-ID),
+ * DELETE terminates the session.
+ */
+
+import { Request, Response } from 'express';
+import * as crypto from 'crypto';
+import { DoceboAuthExpiredError } from './docebo-errors.js';
+import { tokenIdentity } from './harmony-auth-cache.js';
+import { handleMcpMessages, isJsonRpcRequest, JsonRpcResponse, SUPPORTED_PROTOCOL_VERSIONS } from './mcp.js';
+import {
+  McpSession,
+  SseEvent,
+  SseListener,
+  STANDALONE_STREAM_ID,
+  createSession,
+  getSession,
+  deleteSession,
+  getEventsAfter,
+  openStream,
+  isStreamOpen,
+  sendOnStream,
+  endStream,
+} from './sessions.js';
+
+export const SESSION_HEADER = 'Mcp-Session-Id';
+
+// Comment lines keep idle SSE connections open through proxies
+const KEEPALIVE_INTERVAL_MS = 25_000;
+
+let publicUrl = '';
+
+/**
+ * Set the public URL of the server, used in WWW-Authenticate challenges
+ */
+export function configurePublicUrl(url: string): void {
+  publicUrl = url;
+}
+
+/**
+ * WWW-Authenticate value pointing clients at the tenant's protected resource
+ * metadata (RFC 9728), where they find how to refresh or re-authorize
+ */
+export function authChallenge(tenant: string, error?: string): string {
+  const resourceMetadata = `resource_metadata="${publicUrl}/mcp/${tenant}/.well-known/oauth-protected-resource"`;
+  return error ? `Bearer error="${error}", ${resourceMetadata}` : `Bearer ${resourceMetadata}`;
+}
+
+/**
+ * Whether the client accepts an SSE response
+ */
+export function acceptsEventStream(req: Request): boolean {
+  return (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Stream tool calls (potentially long-running) to clients that accept SSE;
+ * answer everything else with plain JSON unless the client only accepts SSE.
+ */
+function shouldStreamResponse(req: Request, messages: unknown[]): boolean {
+  if (!acceptsEventStream(req)) {
+    return false;
+  }
+
+  const acceptsJson = (req.headers.accept ?? '').includes('application/json');
+  return !acceptsJson || messages.some((message) => methodOf(message) === 'tools/call');
+}
+
+function methodOf(message: unknown): unknown {
+  return typeof message === 'object' && message !== null ? (message as { method?: unknown }).method : undefined;
+}
+
+function sendTransportError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    id: null,
+    error: {
+      code,
+      message,
+    },
+  });
+}
+
+/**
+ * 401 for a bearer token Docebo no longer accepts
+ */
+function sendAuthExpired(res: Response, tenant: string): void {
+  res.setHeader('WWW-Authenticate', authChallenge(tenant, 'invalid_token'));
+  sendTransportError(res, 401, -32000, 'Unauthorized: the Docebo access token has expired or was revoked');
+}
+
+/**
+ * Resolve the session named by the Mcp-Session-Id header
+ * Sends 400 when the header is missing and 404 when the session is unknown,
+ * terminated, or belongs to another tenant or caller.
+ */
+function resolveSession(req: Request, res: Response, tenant: string): McpSession | null {
+  const sessionId = req.headers['mcp-session-id'];
+
+  if (!sessionId || typeof sessionId !== 'string') {
+    sendTransportError(res, 400, -32000, `Bad Request: ${SESSION_HEADER} header is required`);
+    return null;
+  }
+
+  const session = getSession(sessionId);
+
+  if (!session || session.tenant !== tenant || session.owner !== tokenIdentity(res.locals.bearerToken)) {
+    sendTransportError(res, 404, -32001, 'Session not found');
+    return null;
+  }
+
+  // Clients that send MCP-Protocol-Version must stick to the negotiated version
+  const protocolVersion = req.headers['mcp-protocol-version'];
+
+  if (typeof protocolVersion === 'string' && protocolVersion !== session.protocolVersion) {
+    const message = SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+      ? `Bad Request: MCP-Protocol-Version ${protocolVersion} does not match the version negotiated for this session (${session.protocolVersion})`
+      : `Bad Request: Unsupported MCP-Protocol-Version ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`;
+
+    sendTransportError(res, 400, -32000, message);
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Keep the session if initialize succeeded, remembering the negotiated version
+ * Returns false when the session was discarded.
+ */
+function completeInitialize(session: McpSession, response: JsonRpcResponse): boolean {
+  if ('error' in response) {
+    deleteSession(session.id);
+    return false;
+  }
+
+  session.protocolVersion = (response.result as { protocolVersion: string }).protocolVersion;
+  return true;
+}
+
+function startEventStream(res: Response): void {
+  if (res.headersSent) {
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+function writeSseEvent(res: Response, event: SseEvent): void {
+  res.write(`id: ${event.id}\nevent: message\ndata: ${event.data}\n\n`);
+}
+
+/**
+ * Attach a response as the live listener for a stream
+ * The SSE headers go out with the first write, so a POST can still be answered
+ * with a plain HTTP error until then. The listener is detached when the client
+ * disconnects; events sent meanwhile stay in the session log for Last-Event-ID replay.
+ * Returns a function that detaches the listener without ending the response.
+ */
+function attachListener(res: Response, session: McpSession, streamId: string): () => void {
+  const keepalive = setInterval(() => {
+    startEventStream(res);
+    res.write(': keepalive\n\n');
+  }, KEEPALIVE_INTERVAL_MS);
+  keepalive.unref();
+
+  const listener: SseListener = {
+    send: (event) => {
+      startEventStream(res);
+      writeSseEvent(res, event);
+    },
+    end: () => {
+      clearInterval(keepalive);
+      res.end();
+    },
+  };
+
+  const detach = () => {
+    clearInterval(keepalive);
+    if (session.listeners.get(streamId) === listener) {
+      session.listeners.delete(streamId);
+    }
+  };
+
+  session.listeners.set(streamId, listener);
+  res.on('close', detach);
+
+  return detach;
+}
+
+/**
+ * POST /mcp/:tenant
+ * Accepts a single JSON-RPC message or a batch. Notification-only payloads get
+ * 202 Accepted with no body. When Docebo rejects the bearer token, answers 401
+ * with a WWW-Authenticate challenge so the client refreshes it.
+ * Requires: Authorization: Bearer <token> (res.locals.bearerToken)
+ */
+export async function handleMcpPost(req: Request, res: Response): Promise<void> {
+  const payload = req.body as unknown;
+  const tenant = req.params.tenant;
+
+  // Validate tenant parameter
+  if (!tenant) {
+    sendTransportError(res, 400, -32600, 'Missing required path parameter: tenant');
+    return;
+  }
+
+  const isBatch = Array.isArray(payload);
+  const messages: unknown[] = isBatch ? payload : [payload];
+
+  // Validate JSON-RPC structure
+  if (isBatch && messages.length === 0) {
+    sendTransportError(res, 400, -32600, 'Invalid Request: empty batch');
+    return;
+  }
+
+  if (!isBatch && (!payload || typeof payload !== 'object')) {
+    sendTransportError(res, 400, -32600, 'Invalid Request: missing method field');
+    return;
+  }
+
+  // initialize opens a new session and must be sent on its own
+  const isInitialize = messages.some((message) => isJsonRpcRequest(message) && methodOf(message) === 'initialize');
+
+  if (isInitialize && isBatch) {
+    sendTransportError(res, 400, -32600, 'Invalid Request: initialize must not be part of a batch');
+    return;
+  }
+
+  // Everything else must name an existing session
+  const session = isInitialize ? createSession(tenant, tokenIdentity(res.locals.bearerToken)) : resolveSession(req, res, tenant);
+
+  if (!session) {
+    if (isInitialize) {
+      sendTransportError(res, 503, -32000, 'Service Unavailable: too many open sessions, retry later');
+    }
+    return;
+  }
+
+  if (isInitialize) {
+    res.setHeader(SESSION_HEADER, session.id);
+  }
+
+  // Notifications and client responses only: acknowledge without a body
+  if (!messages.some(isJsonRpcRequest)) {
+    const responses = await handleMcpMessages(messages, res.locals.bearerToken, tenant, {
+      inFlightRequests: session.inFlight,
+    });
+
+    // Malformed messages still get their error responses
+    if (responses.length > 0) {
+      res.status(400).json(isBatch ? responses : responses[0]);
+      return;
+    }
+
+    res.status(202).end();
+    return;
+  }
+
+  if (shouldStreamResponse(req, messages)) {
+    const streamId = crypto.randomUUID();
+
+    openStream(session, streamId);
+    const detach = attachListener(res, session, streamId);
+
+    let responses: JsonRpcResponse[];
+
+    try {
+      // Progress and other request-scoped notifications go out on the same stream
+      responses = await handleMcpMessages(messages, res.locals.bearerToken, tenant, {
+        sendNotification: (notification) => sendOnStream(session, streamId, notification),
+        inFlightRequests: session.inFlight,
+      });
+    } catch (error) {
+      if (!(error instanceof DoceboAuthExpiredError)) {
+        throw error;
+      }
+
+      // Nothing streamed yet: the HTTP status can still carry the challenge
+      if (!res.headersSent) {
+        detach();
+        endStream(session, streamId);
+        sendAuthExpired(res, tenant);
+        return;
+      }
+
+      responses = messages.filter(isJsonRpcRequest).map((message) => ({
+        jsonrpc: '2.0' as const,
+        id: (message as { id: string | number | null }).id,
+        error: { code: -32000, message: error.message },
+      }));
+    }
+
+    for (const response of responses) {
+      sendOnStream(session, streamId, response);
+    }
+    endStream(session, streamId);
+
+    if (isInitialize) {
+      completeInitialize(session, responses[0]);
+    }
+    return;
+  }
+
+  let responses: JsonRpcResponse[];
+
+  try {
+    responses = await handleMcpMessages(messages, res.locals.bearerToken, tenant, {
+      inFlightRequests: session.inFlight,
+    });
+  } catch (error) {
+    if (error instanceof DoceboAuthExpiredError) {
+      sendAuthExpired(res, tenant);
+      return;
+    }
+    throw error;
+  }
+
+  // Don't keep a session around for a failed initialize
+  if (isInitialize && !completeInitialize(session, responses[0])) {
+    res.removeHeader(SESSION_HEADER);
+  }
+
+  res.json(isBatch ? responses : responses[0]);
+}
+
+/**
+ * GET /mcp/:tenant with Accept: text/event-stream
+ * Opens the standalone server-to-client stream (keepalives only: the server sends
+ * no unsolicited messages), or resumes a POST stream after Last-Event-ID.
+ */
+export function handleMcpStream(req: Request, res: Response): void {
+  const session = resolveSession(req, res, req.params.tenant);
+
+  if (!session) {
+    return;
+  }
+
+  const lastEventId = req.headers['last-event-id'];
+  const replay = typeof lastEventId === 'string' ? getEventsAfter(session, lastEventId) : null;
+  const streamId = replay?.streamId ?? STANDALONE_STREAM_ID;
+
+  if (lastEventId && !replay) {
+    console.warn(`[Transport] Unknown Last-Event-ID ${lastEventId} for session ${session.id}, opening new stream`);
+  }
+
+  if (streamId === STANDALONE_STREAM_ID && session.listeners.has(STANDALONE_STREAM_ID)) {
+    sendTransportError(res, 409, -32000, 'Conflict: only one SSE stream is allowed per session');
+    return;
+  }
+
+  startEventStream(res);
+
+  for (const event of replay?.events ?? []) {
+    writeSseEvent(res, event);
+  }
+
+  // Resuming a finished POST stream: everything has been replayed
+  if (!isStreamOpen(session, streamId)) {
+    res.end();
+    return;
+  }
+
+  attachListener(res, session, streamId);
+}
+
+/**
+ * DELETE /mcp/:tenant
+ * Terminates the session named by Mcp-Session-Id
+ */
+export function handleMcpDelete(req: Request, res: Response): void {
+  const session = resolveSession(req, res, req.params.tenant);
+
+  if (!session) {
+    return;
+  }
+
+  deleteSession(session.id);
+  res.status(204).end();
+}
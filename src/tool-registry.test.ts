@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the MCP tool registry
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  registerTool,
+  registerTools,
+  getTool,
+  listToolDefinitions,
+  clearToolRegistry,
+  formatJsonResult,
+  loadToolPacks,
+  ToolModule,
+} from './tool-registry.js';
+
+function makeTool(name: string): ToolModule {
+  return {
+    name,
+    description: `Tool ${name}`,
+    inputSchema: { type: 'object', properties: {} },
+    handler: vi.fn(async () => ({ ok: true })),
+  };
+}
+
+describe('tool registry', () => {
+  beforeEach(() => {
+    clearToolRegistry();
+  });
+
+  it('registers and looks up tools by name', () => {
+    const tool = makeTool('pack_tool');
+
+    registerTool(tool);
+
+    expect(getTool('pack_tool')).toBe(tool);
+    expect(getTool('missing_tool')).toBeUndefined();
+  });
+
+  it('rejects duplicate tool names', () => {
+    registerTool(makeTool('pack_tool'));
+
+    expect(() => registerTool(makeTool('pack_tool'))).toThrow(
+      "Tool 'pack_tool' is already registered"
+    );
+  });
+
+  it('lists definitions in registration order without handlers', () => {
+    registerTools([makeTool('first_tool'), makeTool('second_tool')]);
+
+    const definitions = listToolDefinitions();
+
+    expect(definitions.map((d) => d.name)).toEqual(['first_tool', 'second_tool']);
+    expect(definitions[0]).toEqual({
+      name: 'first_tool',
+      description: 'Tool first_tool',
+      inputSchema: { type: 'object', properties: {} },
+    });
+  });
+
+  it('formats results as pretty-printed JSON text', () => {
+    expect(formatJsonResult({ a: 1 })).toEqual({
+      content: [{ type: 'text', text: '{\n  "a": 1\n}' }],
+    });
+  });
+
+  it('loads tool packs exporting a tools array', async () => {
+    vi.doMock('virtual-tool-pack', () => ({ tools: [makeTool('pack_tool')] }));
+
+    await loadToolPacks(['virtual-tool-pack']);
+
+    expect(getTool('pack_tool')).toBeDefined();
+  });
+
+  it('rejects tool packs without a tools array', async () => {
+    vi.doMock('virtual-empty-pack', () => ({ tools: 'not-a-list' }));
+
+    await expect(loadToolPacks(['virtual-empty-pack'])).rejects.toThrow(
+      "Tool pack 'virtual-empty-pack' does not export a tools array"
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * MCP tool registry
+ * Single source of truth for tools/list and tools/call. Each tool is a
+ * self-contained module (definition, input schema, handler, output formatter)
+ * registered once at startup. Third-party tool packs can be loaded by module path.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+// Shape advertised to clients in tools/list
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  outputSchema?: ToolInputSchema; // Object schema of structuredContent, when the tool returns it
+}
+
+// Per-request data handed to every tool handler
+export interface ToolContext {
+  bearerToken: string;
+  tenant: string;
+  // Present when the client sent a progressToken and the response is streamed
+  reportProgress?: (progress: number, message?: string) => void;
+  // Aborted when the client cancels the call or the tool's time limit is reached
+  signal: AbortSignal;
+}
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface ToolModule<TArgs = unknown, TResult = unknown> extends ToolDefinition {
+  handler: (args: TArgs, context: ToolContext) => Promise<TResult>;
+  formatResult?: (result: TResult) => ToolResult;
+  timeoutMs?: number; // Time limit of a call (default: configured with configureToolTimeout)
+}
+
+/**
+ * Declare a tool with typed arguments and result, as a module the registry accepts
+ * The registry hands handlers the arguments of tools/call unchecked beyond the
+ * input schema, and passes each handler's result only to that tool's formatter.
+ */
+export function defineTool<TArgs, TResult>(tool: ToolModule<TArgs, TResult>): ToolModule {
+  return tool as unknown as ToolModule;
+}
+
+/**
+ * Thrown by tool handlers when arguments are unusable.
+ * Mapped to JSON-RPC INVALID_PARAMS by the MCP handler.
+ */
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+const registry = new Map<string, ToolModule>();
+
+let defaultTimeoutMs = 120_000;
+
+/**
+ * Set the time limit of tools that don't declare their own
+ */
+export function configureToolTimeout(timeoutMs: number): void {
+  defaultTimeoutMs = timeoutMs;
+}
+
+/**
+ * Time limit of a call to a tool
+ */
+export function getToolTimeout(tool: ToolModule): number {
+  return tool.timeoutMs ?? defaultTimeoutMs;
+}
+
+/**
+ * Register a single tool. Tool names must be unique.
+ */
+export function registerTool(tool: ToolModule): void {
+  if (registry.has(tool.name)) {
+    throw new Error(`Tool '${tool.name}' is already registered`);
+  }
+
+  registry.set(tool.name, tool);
+}
+
+/**
+ * Register a pack of tools, preserving their order in tools/list
+ */
+export function registerTools(tools: ToolModule[]): void {
+  for (const tool of tools) {
+    registerTool(tool);
+  }
+}
+
+/**
+ * Look up a registered tool by name
+ */
+export function getTool(name: string): ToolModule | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Tool definitions for tools/list (handlers and formatters stripped)
+ */
+export function listToolDefinitions(): ToolDefinition[] {
+  return Array.from(registry.values()).map(({ name, description, inputSchema, outputSchema }) => ({
+    name,
+    description,
+    inputSchema,
+    ...(outputSchema ? { outputSchema } : {}),
+  }));
+}
+
+/**
+ * Remove all registered tools (for tests)
+ */
+export function clearToolRegistry(): void {
+  registry.clear();
+}
+
+/**
+ * Default output formatter: pretty-printed JSON as a single text block
+ */
+export function formatJsonResult(result: unknown): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Output formatter for tools with an outputSchema: the result as structuredContent,
+ * plus the same JSON as text for clients that predate structured output
+ */
+export function formatStructuredResult(result: unknown): ToolResult {
+  return {
+    ...formatJsonResult(result),
+    structuredContent: result as Record<string, unknown>,
+  };
+}
+
+/**
+ * Tool execution error: shown to the model so it can correct course
+ */
+export function formatErrorResult(message: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: message }],
+    isError: true,
+  };
+}
+
+/**
+ * Load third-party tool packs at startup
+ * Each specifier is a package name or a file path (relative to cwd) whose module
+ * exports an array of tool modules as `tools` or as its default export.
+ */
+export async function loadToolPacks(specifiers: string[]): Promise<void> {
+  for (const specifier of specifiers) {
+    const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+    const moduleUrl = isPath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+
+    const pack = await import(moduleUrl) as { tools?: ToolModule[]; default?: ToolModule[] };
+    const tools = pack.tools ?? pack.default;
+
+    if (!Array.isArray(tools)) {
+      throw new Error(`Tool pack '${specifier}' does not export a tools array`);
+    }
+
+    registerTools(tools);
+    console.log(`[Tools] Loaded ${tools.length} tool(s) from pack:`, specifier);
+  }
+}
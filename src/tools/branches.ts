@@ -0,0 +1,77 @@
+/**
+ * Branch (org chart) tools
+ */
+
+import {
+  listBranches,
+  listBranchUsers,
+  ListBranchesParams,
+  ListBranchesResponse,
+  ListUsersResponse,
+  DoceboBranch,
+  DoceboUser,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+// Users plus their IDs, ready for docebo_bulk_enroll or docebo_add_group_members
+export type UserPageWithIds = (ListUsersResponse | FetchAllResult<DoceboUser>) & { user_ids: number[] };
+
+// Arguments of the tools listing the users of a branch or group
+export type MemberListArgs = { page?: number; page_size?: number } & FetchAllArgs;
+
+/**
+ * Attach the user IDs of a page (or fetch_all result) of users
+ */
+export function withUserIds(response: ListUsersResponse | FetchAllResult<DoceboUser>): UserPageWithIds {
+  return { ...response, user_ids: response.data.items.map((user) => user.user_id) };
+}
+
+export const listBranchesTool = defineTool<ListBranchesParams & FetchAllArgs, ListBranchesResponse | FetchAllResult<DoceboBranch>>({
+  name: 'docebo_list_branches',
+  description: 'Browse the Docebo org chart. Without parent_id returns the top-level branches; with parent_id returns its child branches. Use has_children to drill down.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      parent_id: {
+        type: 'number',
+        description: 'Branch ID whose children to list (optional)',
+      },
+      search_text: {
+        type: 'string',
+        description: 'Search filter for branch name or code',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listBranches({ ...args, page, page_size }, bearerToken, tenant))
+      : listBranches(args, bearerToken, tenant),
+});
+
+export const listBranchUsersTool = defineTool<{ branch_id: number } & MemberListArgs, UserPageWithIds>({
+  name: 'docebo_list_branch_users',
+  description: 'List the users of a branch. The user_ids field can be passed to docebo_bulk_enroll (which also accepts branch_id directly).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      branch_id: {
+        type: 'number',
+        description: 'Branch ID (numeric)',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    required: ['branch_id'],
+    additionalProperties: false,
+  },
+  handler: async ({ branch_id, ...params }, { bearerToken, tenant }) =>
+    withUserIds(isFetchAll(params)
+      ? await fetchAll(params, (page, page_size) => listBranchUsers(branch_id, { page, page_size }, bearerToken, tenant))
+      : await listBranchUsers(branch_id, params, bearerToken, tenant)),
+});
+
+export const branchTools: ToolModule[] = [listBranchesTool, listBranchUsersTool];
@@ -0,0 +1,115 @@
+/**
+ * Certification tools
+ */
+
+import {
+  listCertifications,
+  listCertificationHolders,
+  listExpiringCertifications,
+  ListCertificationsParams,
+  ListCertificationsResponse,
+  DoceboCertification,
+  ListCertificationHoldersParams,
+  ListCertificationHoldersResponse,
+  CertificationHolder,
+  ListExpiringCertificationsParams,
+  ListExpiringCertificationsResponse,
+  ExpiringScanPosition,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll, encodeCursor, decodeCursor } from './pagination.js';
+
+const CERTIFICATION_ID_PROPERTY = {
+  certification_id: {
+    type: 'number',
+    description: 'Certification ID (numeric)',
+  },
+};
+
+export const listCertificationsTool = defineTool<ListCertificationsParams & FetchAllArgs, ListCertificationsResponse | FetchAllResult<DoceboCertification>>({
+  name: 'docebo_list_certifications',
+  description: 'List and search Docebo certifications, with their validity period. Returns paginated certification data.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      search_text: {
+        type: 'string',
+        description: 'Search filter for certification title or code',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listCertifications({ ...args, page, page_size }, bearerToken, tenant))
+      : listCertifications(args, bearerToken, tenant),
+});
+
+export const listCertificationHoldersTool = defineTool<ListCertificationHoldersParams & FetchAllArgs, ListCertificationHoldersResponse | FetchAllResult<CertificationHolder>>({
+  name: 'docebo_list_certification_holders',
+  description: 'List the users holding a certification, with issue and expiry dates. Returns paginated data.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CERTIFICATION_ID_PROPERTY,
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    required: ['certification_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listCertificationHolders({ ...args, page, page_size }, bearerToken, tenant))
+      : listCertificationHolders(args, bearerToken, tenant),
+});
+
+// The scan position travels as an opaque cursor
+type ExpiringCertificationsArgs = Omit<ListExpiringCertificationsParams, 'from'> & { cursor?: string };
+type ExpiringCertificationsResult = Pick<ListExpiringCertificationsResponse, 'expiring_before'> & {
+  data: ListExpiringCertificationsResponse['data'] & { next_cursor?: string };
+};
+
+function isScanPosition(value: unknown): value is ExpiringScanPosition {
+  const { active, started } = (value ?? {}) as Partial<ExpiringScanPosition>;
+  return Number.isInteger(started) && started! >= 0 && Array.isArray(active) && active.every((entry) =>
+    Array.isArray(entry) && entry.length === 2 && Number.isInteger(entry[0]) && entry[0] >= 1 && Number.isInteger(entry[1]) && entry[1] >= 1
+  );
+}
+
+export const listExpiringCertificationsTool = defineTool<ExpiringCertificationsArgs, ExpiringCertificationsResult>({
+  name: 'docebo_list_expiring_certifications',
+  description: 'List users whose certifications expire within the next N days, with days remaining. Covers all certifications unless certification_id is given. Large tenants are scanned over several calls: while has_more_page is true, call again with next_cursor.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      days: {
+        type: 'number',
+        minimum: 0,
+        maximum: 3650,
+        description: 'Expiring within this many days from today',
+      },
+      ...CERTIFICATION_ID_PROPERTY,
+      cursor: {
+        type: 'string',
+        description: 'next_cursor of a previous result, to continue the scan (same days and certification_id)',
+      },
+    },
+    required: ['days'],
+    additionalProperties: false,
+  },
+  handler: async ({ cursor, ...params }, { bearerToken, tenant }) => {
+    const from = cursor !== undefined ? decodeCursor(cursor, isScanPosition) : undefined;
+    const { expiring_before, data, next } = await listExpiringCertifications({ ...params, from }, bearerToken, tenant);
+
+    return { expiring_before, data: { ...data, ...(next ? { next_cursor: encodeCursor(next) } : {}) } };
+  },
+});
+
+export const certificationTools: ToolModule[] = [
+  listCertificationsTool,
+  listCertificationHoldersTool,
+  listExpiringCertificationsTool,
+];
@@ -0,0 +1,81 @@
+/**
+ * Course catalog tools
+ */
+
+import {
+  listCourses,
+  getCourseDetails,
+  ListCoursesParams,
+  ListCoursesResponse,
+  DoceboCourse,
+  DoceboCourseDetails,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+export const listCoursesTool = defineTool<ListCoursesParams & FetchAllArgs, ListCoursesResponse | FetchAllResult<DoceboCourse>>({
+  name: 'docebo_list_courses',
+  description: 'List and search courses in the Docebo catalog. Returns paginated course data including course IDs for enrollment.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PAGE_PROPERTIES,
+      search_text: {
+        type: 'string',
+        description: 'Search filter for course name, code or description',
+      },
+      type: {
+        type: 'string',
+        enum: ['elearning', 'classroom', 'webinar'],
+        description: 'Course type',
+      },
+      category_id: {
+        type: 'number',
+        description: 'Category ID (numeric)',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code (e.g., "en", "it")',
+      },
+      status: {
+        type: 'string',
+        enum: ['published', 'under_maintenance'],
+        description: 'Course status',
+      },
+      sort_attr: {
+        type: 'string',
+        description: 'Attribute to sort by (e.g., "name", "date_created")',
+      },
+      sort_dir: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort direction',
+      },
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listCourses({ ...args, page, page_size }, bearerToken, tenant))
+      : listCourses(args, bearerToken, tenant),
+});
+
+export const getCourseTool = defineTool<{ course_id: number }, DoceboCourseDetails>({
+  name: 'docebo_get_course',
+  description: 'Get full details of a Docebo course, including its classroom/webinar sessions and enrollment policy.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      course_id: {
+        type: 'number',
+        description: 'Course ID (numeric)',
+      },
+    },
+    required: ['course_id'],
+    additionalProperties: false,
+  },
+  handler: ({ course_id }, { bearerToken, tenant }) => getCourseDetails(course_id, bearerToken, tenant),
+});
+
+export const courseTools: ToolModule[] = [listCoursesTool, getCourseTool];
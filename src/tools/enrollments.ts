@@ -0,0 +1,245 @@
+/**
+ * Enrollment tools
+ */
+
+import {
+  enrollUser,
+  bulkEnroll,
+  listEnrollments,
+  updateEnrollment,
+  unenrollUser,
+  getUserProgress,
+  EnrollUserParams,
+  EnrollUserResponse,
+  BulkEnrollParams,
+  BulkEnrollResponse,
+  ListEnrollmentsParams,
+  ListEnrollmentsResponse,
+  DoceboEnrollment,
+  UpdateEnrollmentParams,
+  UpdateEnrollmentResponse,
+  ENROLLMENT_UPDATE_FIELDS,
+  UnenrollUserParams,
+  UnenrollUserResponse,
+  GetUserProgressParams,
+  UserProgressReport,
+} from '../docebo.js';
+import { defineTool, ToolModule, ToolArgumentError, ToolResult } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+// Shared by the tools that address a single enrollment
+const ENROLLMENT_KEY_PROPERTIES = {
+  user_id: {
+    type: 'number',
+    description: 'User ID (numeric)',
+  },
+  course_id: {
+    type: 'number',
+    description: 'Course ID (numeric)',
+  },
+};
+
+// Enrollment settings, as accepted by docebo_enroll_user and docebo_update_enrollment
+const ENROLLMENT_SETTING_PROPERTIES = {
+  level: {
+    type: 'number',
+    enum: [3, 4, 6],
+    description: 'Enrollment level: 3=student (default), 4=tutor, 6=instructor',
+  },
+  assignment_type: {
+    type: 'string',
+    enum: ['mandatory', 'required', 'recommended', 'optional'],
+    description: 'Assignment type (optional)',
+  },
+  date_begin_validity: {
+    type: 'string',
+    format: 'date',
+    description: 'Start date for enrollment validity (yyyy-mm-dd format, optional)',
+  },
+  date_expire_validity: {
+    type: 'string',
+    format: 'date',
+    description: 'Expiration date for enrollment (yyyy-mm-dd format, optional)',
+  },
+};
+
+const ENROLLMENT_STATUSES = ['subscribed', 'in_progress', 'completed', 'suspended', 'waiting'];
+
+export const enrollUserTool = defineTool<EnrollUserParams, EnrollUserResponse>({
+  name: 'docebo_enroll_user',
+  description: 'Enroll a user in a Docebo course. Requires user ID and course ID.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...ENROLLMENT_KEY_PROPERTIES,
+      ...ENROLLMENT_SETTING_PROPERTIES,
+    },
+    required: ['user_id', 'course_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => enrollUser(args, bearerToken, tenant),
+});
+
+export const bulkEnrollTool = defineTool<BulkEnrollParams, BulkEnrollResponse>({
+  name: 'docebo_bulk_enroll',
+  description: 'Enroll many users in many courses at once. Users can be given by ID and/or taken from a branch or group. Returns a result for every user/course pair: enrolled, waiting, already_enrolled, or failed with the reason.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 1,
+        description: 'User IDs (numeric)',
+      },
+      branch_id: {
+        type: 'number',
+        description: 'Enroll the users of this branch (org chart node)',
+      },
+      group_id: {
+        type: 'number',
+        description: 'Enroll the members of this group',
+      },
+      course_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 1,
+        description: 'Course IDs (numeric)',
+      },
+      ...ENROLLMENT_SETTING_PROPERTIES,
+    },
+    required: ['course_ids'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => {
+    if (!args.user_ids && args.branch_id === undefined && args.group_id === undefined) {
+      throw new ToolArgumentError('Provide user_ids, branch_id or group_id');
+    }
+
+    return bulkEnroll(args, bearerToken, tenant);
+  },
+  formatResult: formatBulkEnrollResult,
+  timeoutMs: 600_000, // Thousands of pairs take many sequential requests
+});
+
+/**
+ * Summary line plus a markdown table with one row per user/course pair
+ */
+function formatBulkEnrollResult({ summary, results }: BulkEnrollResponse): ToolResult {
+  const lines = [
+    `Enrolled: ${summary.enrolled}, waiting: ${summary.waiting}, already enrolled: ${summary.already_enrolled}, failed: ${summary.failed}`,
+    '',
+    '| user_id | course_id | status | reason |',
+    '|---------|-----------|--------|--------|',
+    ...results.map((r) => `| ${r.user_id} | ${r.course_id} | ${r.status} | ${(r.reason ?? '').replace(/\|/g, '\\|')} |`),
+  ];
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: results.length > 0 && summary.failed === results.length,
+  };
+}
+
+export const listEnrollmentsTool = defineTool<ListEnrollmentsParams & FetchAllArgs, ListEnrollmentsResponse | FetchAllResult<DoceboEnrollment>>({
+  name: 'docebo_list_enrollments',
+  description: 'List enrollments of a user (user_id), of a course (course_id), or both. Returns paginated enrollment data with status, level and validity dates.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...ENROLLMENT_KEY_PROPERTIES,
+      status: {
+        type: 'string',
+        enum: ENROLLMENT_STATUSES,
+        description: 'Only enrollments with this status',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => {
+    if (args.user_id === undefined && args.course_id === undefined) {
+      throw new ToolArgumentError('Provide user_id, course_id, or both');
+    }
+
+    return isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listEnrollments({ ...args, page, page_size }, bearerToken, tenant))
+      : listEnrollments(args, bearerToken, tenant);
+  },
+});
+
+export const getUserProgressTool = defineTool<GetUserProgressParams, UserProgressReport>({
+  name: 'docebo_get_user_progress',
+  description: "A learner's transcript: every enrollment with status, score, time spent, completion date and certificate, plus totals. Use completed_from/completed_to for questions like \"what has Alice completed this quarter?\".",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_id: ENROLLMENT_KEY_PROPERTIES.user_id,
+      status: {
+        type: 'string',
+        enum: ENROLLMENT_STATUSES,
+        description: 'Only enrollments with this status',
+      },
+      completed_from: {
+        type: 'string',
+        format: 'date',
+        description: 'Only enrollments completed on or after this date (yyyy-mm-dd format)',
+      },
+      completed_to: {
+        type: 'string',
+        format: 'date',
+        description: 'Only enrollments completed on or before this date (yyyy-mm-dd format)',
+      },
+    },
+    required: ['user_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => getUserProgress(args, bearerToken, tenant),
+});
+
+export const updateEnrollmentTool = defineTool<UpdateEnrollmentParams, UpdateEnrollmentResponse>({
+  name: 'docebo_update_enrollment',
+  description: 'Update an existing enrollment: status, level, assignment type or validity dates. Only the fields given are changed.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...ENROLLMENT_KEY_PROPERTIES,
+      status: {
+        type: 'string',
+        enum: ENROLLMENT_STATUSES,
+        description: 'New enrollment status',
+      },
+      ...ENROLLMENT_SETTING_PROPERTIES,
+    },
+    required: ['user_id', 'course_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => {
+    if (!ENROLLMENT_UPDATE_FIELDS.some((field) => args[field] !== undefined)) {
+      throw new ToolArgumentError(`Provide at least one of: ${ENROLLMENT_UPDATE_FIELDS.join(', ')}`);
+    }
+
+    return updateEnrollment(args, bearerToken, tenant);
+  },
+});
+
+export const unenrollUserTool = defineTool<UnenrollUserParams, UnenrollUserResponse>({
+  name: 'docebo_unenroll_user',
+  description: 'Remove a user from a course (deletes the enrollment and its progress). Requires user ID and course ID.',
+  inputSchema: {
+    type: 'object',
+    properties: ENROLLMENT_KEY_PROPERTIES,
+    required: ['user_id', 'course_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => unenrollUser(args, bearerToken, tenant),
+});
+
+export const enrollmentTools: ToolModule[] = [
+  enrollUserTool,
+  bulkEnrollTool,
+  listEnrollmentsTool,
+  getUserProgressTool,
+  updateEnrollmentTool,
+  unenrollUserTool,
+];
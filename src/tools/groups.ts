@@ -0,0 +1,98 @@
+/**
+ * Group tools
+ */
+
+import {
+  listGroups,
+  listGroupMembers,
+  addGroupMembers,
+  removeGroupMembers,
+  ListGroupsParams,
+  ListGroupsResponse,
+  DoceboGroup,
+  GroupMembershipParams,
+  GroupMembershipResponse,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { MemberListArgs, UserPageWithIds, withUserIds } from './branches.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+// Shared by the tools that change group membership
+const MEMBERSHIP_PROPERTIES = {
+  group_id: {
+    type: 'number',
+    description: 'Group ID (numeric)',
+  },
+  user_ids: {
+    type: 'array',
+    items: { type: 'number' },
+    minItems: 1,
+    description: 'User IDs (numeric)',
+  },
+};
+
+export const listGroupsTool = defineTool<ListGroupsParams & FetchAllArgs, ListGroupsResponse | FetchAllResult<DoceboGroup>>({
+  name: 'docebo_list_groups',
+  description: 'List and search Docebo groups. Returns paginated group data including group IDs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      search_text: {
+        type: 'string',
+        description: 'Search filter for group name',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listGroups({ ...args, page, page_size }, bearerToken, tenant))
+      : listGroups(args, bearerToken, tenant),
+});
+
+export const listGroupMembersTool = defineTool<{ group_id: number } & MemberListArgs, UserPageWithIds>({
+  name: 'docebo_list_group_members',
+  description: 'List the members of a group. The user_ids field can be passed to docebo_bulk_enroll (which also accepts group_id directly).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      group_id: MEMBERSHIP_PROPERTIES.group_id,
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    required: ['group_id'],
+    additionalProperties: false,
+  },
+  handler: async ({ group_id, ...params }, { bearerToken, tenant }) =>
+    withUserIds(isFetchAll(params)
+      ? await fetchAll(params, (page, page_size) => listGroupMembers(group_id, { page, page_size }, bearerToken, tenant))
+      : await listGroupMembers(group_id, params, bearerToken, tenant)),
+});
+
+export const addGroupMembersTool = defineTool<GroupMembershipParams, GroupMembershipResponse>({
+  name: 'docebo_add_group_members',
+  description: 'Add users to a Docebo group.',
+  inputSchema: {
+    type: 'object',
+    properties: MEMBERSHIP_PROPERTIES,
+    required: ['group_id', 'user_ids'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => addGroupMembers(args, bearerToken, tenant),
+});
+
+export const removeGroupMembersTool = defineTool<GroupMembershipParams, GroupMembershipResponse>({
+  name: 'docebo_remove_group_members',
+  description: 'Remove users from a Docebo group. Their accounts and enrollments are kept.',
+  inputSchema: {
+    type: 'object',
+    properties: MEMBERSHIP_PROPERTIES,
+    required: ['group_id', 'user_ids'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => removeGroupMembers(args, bearerToken, tenant),
+});
+
+export const groupTools: ToolModule[] = [listGroupsTool, listGroupMembersTool, addGroupMembersTool, removeGroupMembersTool];
@@ -0,0 +1,156 @@
+/**
+ * Harmony Search (RAG) tools
+ */
+
+import {
+  startHarmonySession,
+  sendHarmonyMessage,
+  HarmonySearchParams,
+  HarmonySearchResponse,
+  HarmonySearchEvent,
+  harmonyEventText,
+} from '../docebo.js';
+import { saveConversation, getConversation, endConversation } from '../harmony-conversations.js';
+import { defineTool, ToolModule, ToolArgumentError } from '../tool-registry.js';
+
+interface HarmonySearchArgs extends HarmonySearchParams {
+  session_id?: string;
+  debug?: boolean;
+}
+
+interface HarmonyConversationArgs {
+  action: 'start' | 'end';
+  session_id?: string;
+}
+
+export const harmonySearchTool = defineTool<HarmonySearchArgs, HarmonySearchResponse>({
+  name: 'docebo_harmony_search',
+  description: 'Search Docebo Learning Management System. Pass the session_id returned by a previous search (or by docebo_harmony_conversation) to ask a follow-up question in the same conversation.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        minLength: 1,
+        description: 'Search query text',
+      },
+      session_id: {
+        type: 'string',
+        minLength: 1,
+        description: 'Conversation to continue (optional, default: start a new conversation)',
+      },
+      debug: {
+        type: 'boolean',
+        description: 'Also return the raw Geppetto events and stream (large; for troubleshooting only)',
+      },
+    },
+    required: ['query'],
+    additionalProperties: false,
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      sessionId: { type: 'string', description: 'Pass as session_id to ask a follow-up question' },
+      answer: { type: 'string', description: 'Answer text' },
+      citations: {
+        type: 'array',
+        description: 'Courses and assets the answer is based on',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'course, learning_object, asset, ...' },
+            id: { type: ['number', 'string'] },
+            title: { type: 'string' },
+            url: { type: 'string' },
+          },
+          required: ['type', 'id', 'title'],
+        },
+      },
+      followUps: {
+        type: 'array',
+        description: 'Suggested follow-up questions',
+        items: { type: 'string' },
+      },
+      events: { type: 'array', description: 'Raw Geppetto events (debug only)' },
+      rawStream: { type: 'string', description: 'Raw Geppetto SSE stream (debug only)' },
+    },
+    required: ['query', 'sessionId', 'answer', 'citations', 'followUps'],
+  },
+  handler: async ({ query, session_id, debug }, { bearerToken, tenant, reportProgress }) => {
+    const conversation = session_id
+      ? getConversation(session_id, bearerToken, tenant)
+      : saveConversation(await startHarmonySession(bearerToken, tenant), bearerToken, tenant);
+
+    if (!conversation) {
+      throw unknownConversation(session_id!);
+    }
+
+    console.log(`[Docebo] Harmony Search query (conversation ${conversation.id}):`, query);
+
+    let received = 0;
+
+    // Forward each answer event as a progress notification while the answer streams
+    return sendHarmonyMessage(conversation.session, query, bearerToken, tenant, {
+      onEvent: (event) => reportProgress?.(++received, describeEvent(event)),
+      includeRaw: debug,
+    });
+  },
+});
+
+export const harmonyConversationTool = defineTool<HarmonyConversationArgs, { session_id: string; ended?: boolean }>({
+  name: 'docebo_harmony_conversation',
+  description: 'Start or end a Harmony Search conversation. Start returns a session_id to pass to docebo_harmony_search; idle conversations expire automatically.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['start', 'end'],
+        description: 'start: open a new conversation; end: close the conversation named by session_id',
+      },
+      session_id: {
+        type: 'string',
+        minLength: 1,
+        description: 'Conversation to end (required for action "end")',
+      },
+    },
+    required: ['action'],
+    additionalProperties: false,
+  },
+  handler: async ({ action, session_id }, { bearerToken, tenant }) => {
+    if (action === 'start') {
+      const conversation = saveConversation(await startHarmonySession(bearerToken, tenant), bearerToken, tenant);
+      return { session_id: conversation.id };
+    }
+
+    if (!session_id) {
+      throw new ToolArgumentError('session_id is required to end a conversation');
+    }
+
+    if (!endConversation(session_id, bearerToken, tenant)) {
+      throw unknownConversation(session_id);
+    }
+
+    return { session_id, ended: true };
+  },
+});
+
+/**
+ * Rejection of a session_id with no live conversation for this caller
+ * Conversations are bound to the bearer token, so a refreshed token ends them too.
+ */
+function unknownConversation(sessionId: string): ToolArgumentError {
+  return new ToolArgumentError(
+    `Unknown or expired Harmony conversation: ${sessionId}. Conversations end after inactivity or when the access token is refreshed; omit session_id to start a new one.`
+  );
+}
+
+/**
+ * Progress message for a Geppetto stream event: its text chunk when present
+ */
+function describeEvent(event: HarmonySearchEvent): string {
+  return harmonyEventText(event) ?? `Received ${event.event} event`;
+}
+
+export const harmonyTools: ToolModule[] = [harmonySearchTool, harmonyConversationTool];
@@ -0,0 +1,26 @@
+/**
+ * Built-in Docebo tool packs, in tools/list order
+ */
+
+import { ToolModule } from '../tool-registry.js';
+import { userTools } from './users.js';
+import { harmonyTools } from './harmony.js';
+import { enrollmentTools } from './enrollments.js';
+import { courseTools } from './courses.js';
+import { sessionTools } from './sessions.js';
+import { learningPlanTools } from './learning-plans.js';
+import { branchTools } from './branches.js';
+import { groupTools } from './groups.js';
+import { certificationTools } from './certifications.js';
+
+export const builtinTools: ToolModule[] = [
+  ...userTools,
+  ...harmonyTools,
+  ...enrollmentTools,
+  ...courseTools,
+  ...sessionTools,
+  ...learningPlanTools,
+  ...branchTools,
+  ...groupTools,
+  ...certificationTools,
+];
@@ -0,0 +1,124 @@
+/**
+ * Learning plan tools
+ */
+
+import {
+  listLearningPlans,
+  getLearningPlanDetails,
+  enrollLearningPlan,
+  getLearningPlanProgress,
+  ListLearningPlansParams,
+  ListLearningPlansResponse,
+  DoceboLearningPlan,
+  DoceboLearningPlanDetails,
+  EnrollLearningPlanParams,
+  EnrollLearningPlanResponse,
+  LearningPlanProgress,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+const LEARNING_PLAN_ID_PROPERTY = {
+  learning_plan_id: {
+    type: 'number',
+    description: 'Learning plan ID (numeric)',
+  },
+};
+
+export const listLearningPlansTool = defineTool<ListLearningPlansParams & FetchAllArgs, ListLearningPlansResponse | FetchAllResult<DoceboLearningPlan>>({
+  name: 'docebo_list_learning_plans',
+  description: 'List and search Docebo learning plans. Returns paginated learning plan data.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PAGE_PROPERTIES,
+      search_text: {
+        type: 'string',
+        description: 'Search filter for learning plan name or code',
+      },
+      sort_attr: {
+        type: 'string',
+        description: 'Attribute to sort by (e.g., "name")',
+      },
+      sort_dir: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort direction',
+      },
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listLearningPlans({ ...args, page, page_size }, bearerToken, tenant))
+      : listLearningPlans(args, bearerToken, tenant),
+});
+
+export const getLearningPlanTool = defineTool<{ learning_plan_id: number }, DoceboLearningPlanDetails>({
+  name: 'docebo_get_learning_plan',
+  description: 'Get a Docebo learning plan with the courses it contains, in plan order.',
+  inputSchema: {
+    type: 'object',
+    properties: LEARNING_PLAN_ID_PROPERTY,
+    required: ['learning_plan_id'],
+    additionalProperties: false,
+  },
+  handler: ({ learning_plan_id }, { bearerToken, tenant }) => getLearningPlanDetails(learning_plan_id, bearerToken, tenant),
+});
+
+export const enrollLearningPlanTool = defineTool<EnrollLearningPlanParams, EnrollLearningPlanResponse>({
+  name: 'docebo_enroll_learning_plan',
+  description: 'Enroll users into a Docebo learning plan, which enrolls them into its courses.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...LEARNING_PLAN_ID_PROPERTY,
+      user_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 1,
+        description: 'User IDs (numeric)',
+      },
+      date_begin_validity: {
+        type: 'string',
+        format: 'date',
+        description: 'Start date for enrollment validity (yyyy-mm-dd format, optional)',
+      },
+      date_expire_validity: {
+        type: 'string',
+        format: 'date',
+        description: 'Expiration date for enrollment (yyyy-mm-dd format, optional)',
+      },
+    },
+    required: ['learning_plan_id', 'user_ids'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => enrollLearningPlan(args, bearerToken, tenant),
+});
+
+export const getLearningPlanProgressTool = defineTool<{ learning_plan_id: number; user_id: number }, LearningPlanProgress>({
+  name: 'docebo_get_learning_plan_progress',
+  description: "Report a user's progress in a learning plan: status of each course, completed count and percent complete.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...LEARNING_PLAN_ID_PROPERTY,
+      user_id: {
+        type: 'number',
+        description: 'User ID (numeric)',
+      },
+    },
+    required: ['learning_plan_id', 'user_id'],
+    additionalProperties: false,
+  },
+  handler: ({ learning_plan_id, user_id }, { bearerToken, tenant }) =>
+    getLearningPlanProgress(learning_plan_id, user_id, bearerToken, tenant),
+});
+
+export const learningPlanTools: ToolModule[] = [
+  listLearningPlansTool,
+  getLearningPlanTool,
+  enrollLearningPlanTool,
+  getLearningPlanProgressTool,
+];
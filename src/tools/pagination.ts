@@ -0,0 +1,146 @@
+/**
+ * Paging arguments and "fetch all" mode of list tools
+ * With fetch_all, a list tool pages through the Docebo listing itself and
+ * returns up to max_items items at once. When the cap is hit, next_cursor lets
+ * the caller continue where the result stopped.
+ */
+
+import { paginate, ListPage } from '../docebo-client.js';
+import { ToolArgumentError } from '../tool-registry.js';
+
+// Hard cap of the items returned by one fetch_all call, whatever max_items asks for
+export const MAX_FETCH_ALL_ITEMS = 1000;
+
+// Page size used to walk the listing
+const FETCH_ALL_PAGE_SIZE = 200;
+
+export interface FetchAllArgs {
+  fetch_all?: boolean;
+  max_items?: number;
+  cursor?: string;
+}
+
+export interface FetchAllResult<T> {
+  data: {
+    items: T[];
+    count: number;
+    has_more_page: boolean;
+    next_cursor?: string; // Present when max_items was reached before the end of the listing
+  };
+}
+
+// Where a fetch_all result stopped: page number and items of that page already returned
+interface CursorPosition {
+  page: number;
+  offset: number;
+}
+
+// page and page_size arguments of list tools
+export const PAGE_PROPERTIES = {
+  page: {
+    type: 'number',
+    minimum: 1,
+    description: 'Page number (1-indexed)',
+  },
+  page_size: {
+    type: 'number',
+    minimum: 1,
+    maximum: 200,
+    description: 'Number of items per page (max: 200)',
+  },
+};
+
+export const FETCH_ALL_PROPERTIES = {
+  fetch_all: {
+    type: 'boolean',
+    description: `Return every page at once (up to max_items) instead of a single page; page and page_size are ignored`,
+  },
+  max_items: {
+    type: 'number',
+    minimum: 1,
+    maximum: MAX_FETCH_ALL_ITEMS,
+    description: `Most items returned with fetch_all (default and max: ${MAX_FETCH_ALL_ITEMS})`,
+  },
+  cursor: {
+    type: 'string',
+    description: 'next_cursor of a previous fetch_all result, to continue where it stopped (same other arguments)',
+  },
+};
+
+/**
+ * Whether a list tool call asks for fetch_all mode (a cursor implies it)
+ */
+export function isFetchAll(args: FetchAllArgs): boolean {
+  return args.fetch_all === true || args.cursor !== undefined;
+}
+
+/**
+ * Page through a listing from the cursor (or the start) until the listing ends
+ * or max_items items are collected
+ */
+export async function fetchAll<T>(
+  { max_items, cursor }: FetchAllArgs,
+  fetchPage: (page: number, pageSize: number) => Promise<ListPage<T>>
+): Promise<FetchAllResult<T>> {
+  const maxItems = Math.min(max_items ?? MAX_FETCH_ALL_ITEMS, MAX_FETCH_ALL_ITEMS);
+  const start = cursor !== undefined ? decodeCursor(cursor, isCursorPosition) : { page: 1, offset: 0 };
+  const items: T[] = [];
+
+  for await (const { page, items: pageItems, has_more_page } of paginate((page) => fetchPage(page, FETCH_ALL_PAGE_SIZE), start.page)) {
+    const offset = page === start.page ? start.offset : 0;
+    const taken = pageItems.slice(offset, offset + maxItems - items.length);
+    items.push(...taken);
+
+    // Cap hit in the middle of a page, or at the end of one that isn't the last
+    if (offset + taken.length < pageItems.length) {
+      return toResult(items, { page, offset: offset + taken.length });
+    }
+    if (items.length >= maxItems && has_more_page) {
+      return toResult(items, { page: page + 1, offset: 0 });
+    }
+  }
+
+  return toResult(items);
+}
+
+function toResult<T>(items: T[], next?: CursorPosition): FetchAllResult<T> {
+  console.log('[Docebo] Fetched', items.length, 'items', next ? `(stopped at page ${next.page})` : '(complete)');
+
+  return {
+    data: {
+      items,
+      count: items.length,
+      has_more_page: next !== undefined,
+      ...(next ? { next_cursor: encodeCursor(next) } : {}),
+    },
+  };
+}
+
+function isCursorPosition(value: unknown): value is CursorPosition {
+  const { page, offset } = (value ?? {}) as Partial<CursorPosition>;
+  return Number.isInteger(page) && page! >= 1 && Number.isInteger(offset) && offset! >= 0;
+}
+
+/**
+ * Opaque continuation cursor for a position in a listing
+ */
+export function encodeCursor(position: unknown): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Position encoded by encodeCursor; throws ToolArgumentError when the cursor is not one we issued
+ */
+export function decodeCursor<T>(cursor: string, isValid: (value: unknown) => value is T): T {
+  try {
+    const position: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+
+    if (isValid(position)) {
+      return position;
+    }
+  } catch {
+    // Not JSON
+  }
+
+  throw new ToolArgumentError('Invalid cursor: pass next_cursor from a previous result unchanged');
+}
@@ -0,0 +1,133 @@
+/**
+ * Instructor-led training (classroom and webinar session) tools
+ */
+
+import {
+  listClassroomSessions,
+  listSessionEnrollments,
+  enrollSessionUser,
+  markAttendance,
+  ClassroomSession,
+  ListSessionEnrollmentsParams,
+  ListEnrollmentsResponse,
+  DoceboEnrollment,
+  EnrollSessionParams,
+  EnrollSessionResponse,
+  MarkAttendanceParams,
+  MarkAttendanceResponse,
+} from '../docebo.js';
+import { defineTool, ToolModule } from '../tool-registry.js';
+import { PAGE_PROPERTIES, FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+// Shared by the tools that address a single session
+const SESSION_KEY_PROPERTIES = {
+  course_id: {
+    type: 'number',
+    description: 'Classroom or webinar course ID (numeric)',
+  },
+  session_id: {
+    type: 'number',
+    description: 'Session ID (numeric); see docebo_list_course_sessions',
+  },
+};
+
+export const listCourseSessionsTool = defineTool<{ course_id: number; include_events?: boolean }, { sessions: ClassroomSession[] }>({
+  name: 'docebo_list_course_sessions',
+  description: 'List the sessions of a classroom or webinar course with seats (max, enrolled, available) and waiting list size. Set include_events to also get the dates and locations of each session.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      course_id: SESSION_KEY_PROPERTIES.course_id,
+      include_events: {
+        type: 'boolean',
+        description: 'Include the events (dates) of each session (default: false)',
+      },
+    },
+    required: ['course_id'],
+    additionalProperties: false,
+  },
+  handler: async ({ course_id, include_events }, { bearerToken, tenant }) => ({
+    sessions: await listClassroomSessions(course_id, { include_events }, bearerToken, tenant),
+  }),
+});
+
+export const listSessionEnrollmentsTool = defineTool<ListSessionEnrollmentsParams & FetchAllArgs, ListEnrollmentsResponse | FetchAllResult<DoceboEnrollment>>({
+  name: 'docebo_list_session_enrollments',
+  description: 'List the users enrolled in a classroom session, or only its waiting list. Returns paginated enrollment data.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...SESSION_KEY_PROPERTIES,
+      waiting_only: {
+        type: 'boolean',
+        description: 'Only users on the waiting list (default: false)',
+      },
+      ...PAGE_PROPERTIES,
+      ...FETCH_ALL_PROPERTIES,
+    },
+    required: ['course_id', 'session_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listSessionEnrollments({ ...args, page, page_size }, bearerToken, tenant))
+      : listSessionEnrollments(args, bearerToken, tenant),
+});
+
+export const enrollSessionTool = defineTool<EnrollSessionParams, EnrollSessionResponse>({
+  name: 'docebo_enroll_session',
+  description: 'Enroll a user into a specific session of a classroom or webinar course. When the session is full the user is put on the waiting list (status: waiting).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_id: {
+        type: 'number',
+        description: 'User ID (numeric)',
+      },
+      ...SESSION_KEY_PROPERTIES,
+      level: {
+        type: 'number',
+        enum: [3, 4, 6],
+        description: 'Enrollment level: 3=student (default), 4=tutor, 6=instructor',
+      },
+    },
+    required: ['user_id', 'course_id', 'session_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => enrollSessionUser(args, bearerToken, tenant),
+});
+
+export const markAttendanceTool = defineTool<MarkAttendanceParams, MarkAttendanceResponse>({
+  name: 'docebo_mark_attendance',
+  description: 'Mark users as present or absent at an event (date) of a classroom session.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...SESSION_KEY_PROPERTIES,
+      event_id: {
+        type: 'number',
+        description: 'Event ID (numeric); see docebo_list_course_sessions with include_events',
+      },
+      user_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 1,
+        description: 'User IDs (numeric)',
+      },
+      attended: {
+        type: 'boolean',
+        description: 'true to mark present, false to mark absent',
+      },
+    },
+    required: ['course_id', 'session_id', 'event_id', 'user_ids', 'attended'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => markAttendance(args, bearerToken, tenant),
+});
+
+export const sessionTools: ToolModule[] = [
+  listCourseSessionsTool,
+  listSessionEnrollmentsTool,
+  enrollSessionTool,
+  markAttendanceTool,
+];
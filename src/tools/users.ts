@@ -0,0 +1,194 @@
+/**
+ * User tools
+ */
+
+import {
+  listUsers,
+  getUser,
+  createUser,
+  updateUser,
+  setUserStatus,
+  ListUsersParams,
+  ListUsersResponse,
+  DoceboUser,
+  GetUserResponse,
+  CreateUserParams,
+  CreateUserResponse,
+  UpdateUserParams,
+  UpdateUserResponse,
+  SetUserStatusParams,
+  SetUserStatusResponse,
+} from '../docebo.js';
+import { defineTool, ToolModule, ToolArgumentError } from '../tool-registry.js';
+import { FETCH_ALL_PROPERTIES, FetchAllArgs, FetchAllResult, isFetchAll, fetchAll } from './pagination.js';
+
+// Profile fields accepted by docebo_create_user and docebo_update_user
+const PROFILE_PROPERTIES = {
+  email: {
+    type: 'string',
+    minLength: 3,
+    description: 'Email address',
+  },
+  first_name: {
+    type: 'string',
+    description: 'First name',
+  },
+  last_name: {
+    type: 'string',
+    description: 'Last name',
+  },
+  password: {
+    type: 'string',
+    minLength: 8,
+    description: 'Password (optional)',
+  },
+  language: {
+    type: 'string',
+    description: 'Interface language (e.g., "english", "italian")',
+  },
+  timezone: {
+    type: 'string',
+    description: 'Time zone (e.g., "Europe/Rome")',
+  },
+  expiration_date: {
+    type: 'string',
+    format: 'date',
+    description: 'Date the account expires (yyyy-mm-dd format, optional)',
+  },
+  additional_fields: {
+    type: 'object',
+    description: 'Additional field values keyed by field ID (e.g., {"12": "Sales"}); see docebo_get_user for the field IDs',
+  },
+};
+
+export const listUsersTool = defineTool<ListUsersParams & FetchAllArgs, ListUsersResponse | FetchAllResult<DoceboUser>>({
+  name: 'docebo_list_users',
+  description: 'List users from Docebo LMS. Returns paginated user data, or every page at once with fetch_all.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      page: {
+        type: 'number',
+        minimum: 1,
+        description: 'Page number (1-indexed)',
+      },
+      page_size: {
+        type: 'number',
+        minimum: 1,
+        maximum: 200,
+        description: 'Number of users per page (default: 200, max: 200)',
+      },
+      sort_attr: {
+        type: 'string',
+        description: 'Attribute to sort by (e.g., "user_id", "username")',
+      },
+      sort_dir: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort direction',
+      },
+      search_text: {
+        type: 'string',
+        description: 'Search filter for username or email',
+      },
+      ...FETCH_ALL_PROPERTIES,
+    },
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) =>
+    isFetchAll(args)
+      ? fetchAll(args, (page, page_size) => listUsers({ ...args, page, page_size }, bearerToken, tenant))
+      : listUsers(args, bearerToken, tenant),
+});
+
+export const getUserTool = defineTool<{ user_id: number }, GetUserResponse['data']>({
+  name: 'docebo_get_user',
+  description: 'Get a Docebo user profile by ID, including status, level, branches and additional fields.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_id: {
+        type: 'number',
+        description: 'User ID (numeric)',
+      },
+    },
+    required: ['user_id'],
+    additionalProperties: false,
+  },
+  handler: ({ user_id }, { bearerToken, tenant }) => getUser(user_id, bearerToken, tenant),
+});
+
+export const createUserTool = defineTool<CreateUserParams, CreateUserResponse>({
+  name: 'docebo_create_user',
+  description: 'Create a Docebo user. Without a password, a random one is set and must be changed at first login. Returns the new user ID.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      username: {
+        type: 'string',
+        minLength: 1,
+        description: 'Username (must be unique)',
+      },
+      ...PROFILE_PROPERTIES,
+      branch_id: {
+        type: 'number',
+        description: 'Branch (org chart node) to assign the user to (optional)',
+      },
+      send_notification: {
+        type: 'boolean',
+        description: 'Email the user their credentials (default: false)',
+      },
+    },
+    required: ['username', 'email', 'first_name', 'last_name'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => createUser(args, bearerToken, tenant),
+});
+
+export const updateUserTool = defineTool<UpdateUserParams, UpdateUserResponse>({
+  name: 'docebo_update_user',
+  description: "Update a Docebo user's profile and additional fields. Only the fields given are changed.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_id: {
+        type: 'number',
+        description: 'User ID (numeric)',
+      },
+      ...PROFILE_PROPERTIES,
+    },
+    required: ['user_id'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => {
+    if (!Object.keys(PROFILE_PROPERTIES).some((key) => key in args)) {
+      throw new ToolArgumentError(`Provide at least one of: ${Object.keys(PROFILE_PROPERTIES).join(', ')}`);
+    }
+
+    return updateUser(args, bearerToken, tenant);
+  },
+});
+
+export const setUserStatusTool = defineTool<SetUserStatusParams, SetUserStatusResponse>({
+  name: 'docebo_set_user_status',
+  description: 'Activate or deactivate a Docebo user. Deactivated users cannot log in; their data and enrollments are kept.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user_id: {
+        type: 'number',
+        description: 'User ID (numeric)',
+      },
+      status: {
+        type: 'string',
+        enum: ['active', 'inactive'],
+        description: 'New status',
+      },
+    },
+    required: ['user_id', 'status'],
+    additionalProperties: false,
+  },
+  handler: (args, { bearerToken, tenant }) => setUserStatus(args, bearerToken, tenant),
+});
+
+export const userTools: ToolModule[] = [listUsersTool, getUserTool, createUserTool, updateUserTool, setUserStatusTool];